@@ -0,0 +1,256 @@
+import type { Area, CircleRecord } from "./layout";
+
+import { overlapArea } from "./layout";
+
+/** overlaps smaller than this count as not overlapping */
+const SMALL = 1e-10;
+
+/** most sets exclusiveAreas enumerates the regions of. 2^16 regions is half a
+megabyte of areas, each extra set doubles it */
+const MAX_ENUMERATED_SETS = 16;
+
+/** order independent key for a list of sets */
+function regionKey(sets: (string | number)[]) {
+  return sets
+    .map((set) => set.toString())
+    .sort()
+    .join(",");
+}
+
+/** Converts exclusive region sizes (how many elements are in exactly these
+sets, like an UpSet plot) into the inclusive sizes that venn() expects,
+where 'A,B' counts everything in both A and B. Each returned area carries
+the exclusive size of its region */
+export function exclusiveToInclusive<T>(regions: Area<T>[]): Area<T>[] {
+  var exclusive = new Map<string, Area<T>>();
+
+  for (const region of regions) {
+    if (region.sets.length === 0) {
+      throw "ERROR: exclusive region without any sets";
+    }
+    if (new Set(region.sets.map(String)).size !== region.sets.length) {
+      throw "ERROR: exclusive region " + region.sets + " repeats a set";
+    }
+    if (!isFinite(region.size) || region.size < 0) {
+      throw "ERROR: exclusive region " + region.sets + " has invalid size " + region.size;
+    }
+
+    const key = regionKey(region.sets);
+    if (exclusive.has(key)) {
+      throw "ERROR: exclusive region " + region.sets + " is defined twice";
+    }
+    exclusive.set(key, region);
+  }
+
+  // the inclusive size of a set of sets is the sum of the exclusive sizes
+  // of every region containing all of them
+  var inclusive = new Map<string, Area<T>>();
+  for (const region of regions) {
+    const sets = region.sets;
+    for (var mask = 1; mask < 1 << sets.length; ++mask) {
+      const subset = sets.filter((_, i) => mask & (1 << i));
+      const key = regionKey(subset);
+      var area = inclusive.get(key);
+      if (!area) {
+        const own = exclusive.get(key);
+        area = {
+          ...own,
+          sets: own ? own.sets : subset,
+          size: 0,
+          exclusiveSize: own ? own.size : 0,
+        };
+        inclusive.set(key, area);
+      }
+      area.size += region.size;
+    }
+  }
+
+  // singletons first, then by intersection order like the usual input
+  return Array.from(inclusive.values()).sort(
+    (a, b) => a.sets.length - b.sets.length
+  );
+}
+
+/** The reverse of exclusiveToInclusive: how much of each area is in exactly
+its sets, by inclusion-exclusion over the areas that contain it. Areas
+missing from the input count as empty */
+export function inclusiveToExclusive<T>(areas: Area<T>[]): Area<T>[] {
+  var members = areas.map((area) => new Set(area.sets.map(String))),
+    seen = new Set<string>();
+  for (const area of areas) {
+    const key = regionKey(area.sets);
+    if (seen.has(key)) {
+      throw "ERROR: area " + area.sets + " is defined twice";
+    }
+    seen.add(key);
+  }
+
+  return areas.map((area) => {
+    var size = 0;
+    areas.forEach((other, j) => {
+      if (!area.sets.every((set) => members[j]!.has(String(set)))) return;
+      size += (other.sets.length - area.sets.length) % 2 ? -other.size : other.size;
+    });
+    // sizes that don't add up can leave a region negative
+    return { ...area, size: Math.max(0, size) };
+  });
+}
+
+/** Measures what a layout actually draws: the exclusive area of every one of
+the 2^n - 1 combinations of sets, keyed by their set ids joined with
+'delimiter' like the set_id of vennSolution. Found by inclusion-exclusion
+over the inclusive overlaps. Each overlap is only computed once, and not at
+all when some subset of it already doesn't overlap. Takes at most
+MAX_ENUMERATED_SETS sets, exclusiveRegions only lists the regions that are
+drawn for layouts with more */
+export function exclusiveAreas(circles: CircleRecord, delimiter = ",") {
+  const setids = Object.keys(circles),
+    n = setids.length;
+  if (n > MAX_ENUMERATED_SETS) {
+    throw "ERROR: too many sets to enumerate every region of (" + n + ")";
+  }
+
+  const count = 1 << n,
+    members = (mask: number) => setids.filter((_, i) => mask & (1 << i));
+  var areas = new Float64Array(count);
+  for (var mask = 1; mask < count; ++mask) {
+    var overlaps = true;
+    for (var i = 0; i < n && overlaps; ++i) {
+      const bit = 1 << i;
+      if (mask & bit && mask !== bit && areas[mask ^ bit]! <= SMALL) {
+        overlaps = false;
+      }
+    }
+    areas[mask] = overlaps
+      ? overlapArea(members(mask).map((setid) => circles[setid]!))
+      : 0;
+  }
+
+  // turn inclusive areas into exclusive ones by taking off every superset
+  for (var i = 0; i < n; ++i) {
+    const bit = 1 << i;
+    for (var mask = 1; mask < count; ++mask) {
+      if (!(mask & bit)) areas[mask]! -= areas[mask | bit]!;
+    }
+  }
+
+  var ret: Record<string, number> = {};
+  for (var mask = 1; mask < count; ++mask) {
+    // rounding can leave empty regions very slightly negative
+    ret[members(mask).join(delimiter)] = Math.max(0, areas[mask]!);
+  }
+  return ret;
+}
+
+export type MembershipRow<T> = {
+  element: T;
+  sets: (string | number)[];
+};
+
+export type MembershipOptions = {
+  /** largest number of sets in a single intersection that gets reported */
+  maxOrder?: number;
+};
+
+/** Builds the areas expected by venn() from raw set membership, either a
+list of members per set or one row per element listing its sets. Every
+non-empty intersection is reported, along with the elements inside it */
+export function areasFromMembership<T>(
+  membership: Record<string | number, Iterable<T>> | MembershipRow<T>[],
+  { maxOrder = Infinity }: MembershipOptions = {}
+): Area<T>[] {
+  // group elements by the exact list of sets they belong to
+  var setsOf = new Map<T, (string | number)[]>();
+  function add(element: T, set: string | number) {
+    const sets = setsOf.get(element);
+    if (!sets) {
+      setsOf.set(element, [set]);
+    } else if (sets.indexOf(set) === -1) {
+      sets.push(set);
+    }
+  }
+
+  var order: string[] = [];
+  if (Array.isArray(membership)) {
+    for (const row of membership) {
+      for (const set of row.sets) add(row.element, set);
+    }
+  } else {
+    order = Object.keys(membership);
+    for (const set of order) {
+      for (const element of membership[set]!) add(element, set);
+    }
+  }
+
+  var regions = new Map<string, { sets: (string | number)[]; elements: T[] }>();
+  for (const [element, sets] of setsOf) {
+    const key = regionKey(sets);
+    const region = regions.get(key);
+    if (region) {
+      region.elements.push(element);
+    } else {
+      regions.set(key, { sets: sets, elements: [element] });
+    }
+  }
+
+  // every subset of a region (up to maxOrder sets) contains its elements
+  var areas = new Map<string, Area<T>>();
+  for (const region of regions.values()) {
+    for (const subset of combinations(region.sets, maxOrder)) {
+      const key = regionKey(subset);
+      var area = areas.get(key);
+      if (!area) {
+        area = {
+          sets: subset,
+          size: 0,
+          exclusiveSize: 0,
+          elements: [],
+          exclusiveElements: [],
+        };
+        areas.set(key, area);
+      }
+      // one at a time, spreading a large region overflows the stack
+      area.size += region.elements.length;
+      for (const element of region.elements) area.elements!.push(element);
+      if (subset.length === region.sets.length) {
+        area.exclusiveSize! += region.elements.length;
+        for (const element of region.elements) {
+          area.exclusiveElements!.push(element);
+        }
+      }
+    }
+  }
+
+  // sets listed in a record are reported even when empty
+  for (const set of order) {
+    if (!areas.has(regionKey([set]))) {
+      areas.set(regionKey([set]), {
+        sets: [set],
+        size: 0,
+        exclusiveSize: 0,
+        elements: [],
+        exclusiveElements: [],
+      });
+    }
+  }
+
+  return Array.from(areas.values()).sort(
+    (a, b) => a.sets.length - b.sets.length
+  );
+}
+
+/** all non-empty subsets of 'sets' with at most 'maxOrder' members */
+function combinations<S>(sets: S[], maxOrder: number) {
+  var ret: S[][] = [];
+  function visit(start: number, current: S[]) {
+    for (var i = start; i < sets.length; ++i) {
+      const next = current.concat([sets[i]!]);
+      ret.push(next);
+      if (next.length < maxOrder) {
+        visit(i + 1, next);
+      }
+    }
+  }
+  visit(0, []);
+  return ret;
+}
@@ -0,0 +1,161 @@
+import type { Area } from "./layout";
+import type { GetVennSolutionOptions } from "./diagram";
+import type { VennSolution } from "./canvas";
+
+import { vennSolution } from "./diagram";
+
+/** vennSolution options that can be posted to a worker. orientationOrder,
+onProgress and labels are left out since functions can't be cloned */
+export type VennWorkerOptions = Omit<
+  GetVennSolutionOptions,
+  "orientationOrder" | "onProgress" | "labels"
+>;
+
+/** Message posted to a worker. Plain data, so it survives structured cloning */
+export type VennRequest<T = unknown> = {
+  id: number;
+  data: Area<T>[];
+  options: VennWorkerOptions;
+};
+
+/** Message posted back by a worker, with either the result or the message
+of whatever vennSolution threw */
+export type VennResponse =
+  | { id: number; result: VennSolution }
+  | { id: number; error: string };
+
+/** The parts of a browser Worker or a node worker_threads Worker used here */
+export type VennWorker = {
+  postMessage(message: VennRequest): void;
+  terminate(): unknown;
+  /** node workers */
+  on?(event: string, listener: (value: unknown) => void): unknown;
+  /** browser workers */
+  addEventListener?(
+    type: "message",
+    listener: (event: MessageEvent<unknown>) => void
+  ): void;
+  addEventListener?(type: "error", listener: (event: ErrorEvent) => void): void;
+  addEventListener?(
+    type: "messageerror",
+    listener: (event: MessageEvent) => void
+  ): void;
+};
+
+export type VennAsyncOptions = {
+  /** cancels the request, rejecting with the signal's reason */
+  signal?: AbortSignal;
+  /** starts the worker to run in. Defaults to the worker script shipped
+   * next to this module, in a Web Worker or a worker_threads Worker */
+  createWorker?: () => VennWorker | Promise<VennWorker>;
+};
+
+var nextId = 0;
+
+/** Runs a request inside a worker. The worker script does nothing more
+than post back handleVennRequest of every message it gets */
+export function handleVennRequest<T>(request: VennRequest<T>): VennResponse {
+  try {
+    return { id: request.id, result: vennSolution(request.data, request.options) };
+  } catch (e) {
+    return { id: request.id, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/** Same as vennSolution, but computed off the main thread. Every call gets
+its own worker, which is terminated once it answers: the optimisers can't
+be interrupted, so terminating the worker is the only way an aborted
+request stops using the CPU */
+export async function vennSolutionAsync<T = unknown>(
+  data: Area<T>[],
+  options: VennWorkerOptions,
+  { signal, createWorker = defaultWorker }: VennAsyncOptions = {}
+): Promise<VennSolution> {
+  for (const option of ["orientationOrder", "onProgress", "labels"]) {
+    if ((options as Record<string, unknown>)[option] !== undefined) {
+      throw `ERROR: ${option} can't be posted to a worker`;
+    }
+  }
+  signal?.throwIfAborted();
+
+  const worker = await createWorker();
+  if (signal?.aborted) {
+    worker.terminate();
+    throw signal.reason;
+  }
+
+  const id = nextId++;
+  return new Promise<VennSolution>((resolve, reject) => {
+    var settled = false;
+    function settle() {
+      if (settled) return false;
+      settled = true;
+      signal?.removeEventListener("abort", onAbort);
+      worker.terminate();
+      return true;
+    }
+    function onAbort() {
+      if (settle()) reject(signal!.reason);
+    }
+    function onMessage(response: unknown) {
+      if (!isResponse(response) || response.id !== id || !settle()) return;
+      if ("error" in response) {
+        reject(response.error);
+      } else {
+        resolve(response.result);
+      }
+    }
+    function onError(error: unknown) {
+      if (settle()) reject(error);
+    }
+
+    if (worker.on) {
+      worker.on("message", onMessage);
+      worker.on("error", onError);
+      worker.on("exit", () => onError("ERROR: venn worker exited"));
+    } else if (worker.addEventListener) {
+      worker.addEventListener("message", (event) => onMessage(event.data));
+      worker.addEventListener("error", (event) =>
+        onError(event.error ?? event.message)
+      );
+      worker.addEventListener("messageerror", () =>
+        onError("ERROR: venn worker response couldn't be read")
+      );
+    }
+    signal?.addEventListener("abort", onAbort);
+
+    try {
+      worker.postMessage({ id, data, options });
+    } catch (e) {
+      onError(e);
+    }
+  });
+}
+
+/** whether a message from a worker is one of its answers */
+function isResponse(message: unknown): message is VennResponse {
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    "id" in message &&
+    ("result" in message || "error" in message)
+  );
+}
+
+/** Starts the bundled worker script, with a Web Worker where there is one
+and worker_threads otherwise */
+async function defaultWorker(): Promise<VennWorker> {
+  if (!import.meta.url) {
+    throw "ERROR: can't locate the venn worker script, pass createWorker";
+  }
+  const url = new URL("./worker.js", import.meta.url);
+  if (typeof Worker !== "undefined") {
+    return new Worker(url, { type: "module" });
+  }
+  // not a literal, so browser bundlers don't try to resolve it
+  const specifier = "node:worker_threads";
+  const threads: typeof import("node:worker_threads") = await import(
+    /* @vite-ignore */ specifier
+  );
+  return new threads.Worker(url);
+}
@@ -0,0 +1,215 @@
+import type { Circle, CircleRecord, Ellipse } from "./layout";
+import type { vennSolution } from "./diagram";
+
+import { intersectionArea, containedInCircles } from "./circle-intersection";
+import {
+  ellipseIntersectionArea,
+  ellipseContains,
+  ellipseAngle,
+} from "./ellipse-intersection";
+import { isEllipse } from "./layout";
+import { defaultColors } from "./svg";
+
+export type VennSolution = ReturnType<typeof vennSolution>;
+
+/** The subset of CanvasRenderingContext2D used for drawing */
+export type CanvasContext = {
+  fillStyle: unknown;
+  strokeStyle: unknown;
+  globalAlpha: number;
+  lineWidth: number;
+  font: string;
+  textAlign: string;
+  textBaseline: string;
+  save(): void;
+  restore(): void;
+  beginPath(): void;
+  closePath(): void;
+  moveTo(x: number, y: number): void;
+  arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise?: boolean
+  ): void;
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise?: boolean
+  ): void;
+  fill(): void;
+  stroke(): void;
+  fillText(text: string, x: number, y: number): void;
+};
+
+export type CanvasOptions = {
+  /** fill colors, cycled through in the order of the circles */
+  colors?: string[];
+  fillOpacity?: number;
+  stroke?: string;
+  strokeWidth?: number;
+  font?: string;
+  textColor?: string;
+  /** sets of an intersection to fill, for instance the one being hovered */
+  highlight?: (string | number)[];
+  highlightColor?: string;
+  formatSize?: (size: number) => string;
+};
+
+/** Rebuilds the circles of a vennSolution() result */
+export function solutionCircles(solution: VennSolution) {
+  var ret: CircleRecord = {};
+  for (const circle of solution.circles) {
+    ret[circle.set_id] = {
+      x: circle.x,
+      y: circle.y,
+      // size is the area of the bounding square of the circle
+      radius: Math.sqrt(circle.size) / 2,
+      setid: circle.set_id,
+      ...(circle.rx !== undefined
+        ? { rx: circle.rx, ry: circle.ry, rotation: circle.rotation }
+        : {}),
+    };
+  }
+  return ret;
+}
+
+/** Draws a vennSolution() result onto a canvas 2d context */
+export function renderCanvas(
+  ctx: CanvasContext,
+  solution: VennSolution,
+  {
+    colors = defaultColors,
+    fillOpacity = 0.3,
+    stroke,
+    strokeWidth = 1,
+    font = "14px sans-serif",
+    textColor = "#444",
+    highlight,
+    highlightColor = "grey",
+    formatSize = (size: number) => size.toString(),
+  }: CanvasOptions = {}
+) {
+  const circles = solutionCircles(solution);
+
+  ctx.save();
+  solution.circles.forEach((circle, i) => {
+    traceRegion(ctx, [circles[circle.set_id]!]);
+    ctx.globalAlpha = fillOpacity;
+    ctx.fillStyle = colors[i % colors.length];
+    ctx.fill();
+    if (stroke) {
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = stroke;
+      ctx.lineWidth = strokeWidth;
+      ctx.stroke();
+    }
+  });
+
+  if (highlight) {
+    traceRegion(
+      ctx,
+      highlight.map((set) => circles[set]!)
+    );
+    ctx.globalAlpha = fillOpacity;
+    ctx.fillStyle = highlightColor;
+    ctx.fill();
+  }
+
+  ctx.globalAlpha = 1;
+  ctx.font = font;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  solution.circles.forEach((circle, i) => {
+    if (circle.textX === undefined || circle.textY === undefined) return;
+    ctx.fillStyle = colors[i % colors.length];
+    ctx.fillText(circle.name, circle.textX, circle.textY);
+  });
+  ctx.fillStyle = textColor;
+  for (const intersection of solution.intersections) {
+    if (intersection.textX === undefined || intersection.textY === undefined)
+      continue;
+    ctx.fillText(
+      formatSize(intersection.size),
+      intersection.textX,
+      intersection.textY
+    );
+  }
+  ctx.restore();
+}
+
+/** Adds the outline of the area shared by all the circles to the current
+path of the context, by tracing the arcs found by intersectionArea */
+export function traceRegion(ctx: CanvasContext, circles: Circle[]) {
+  ctx.beginPath();
+  if (circles.some(isEllipse)) {
+    const { arcs } = ellipseIntersectionArea(circles as Ellipse[]).stats;
+    if (arcs.length === 1) {
+      const e = arcs[0]!.ellipse;
+      ctx.ellipse(e.x, e.y, e.rx, e.ry, e.rotation, 0, 2 * Math.PI);
+    } else if (arcs.length > 1) {
+      ctx.moveTo(arcs[0]!.p2.x, arcs[0]!.p2.y);
+      for (const arc of arcs) {
+        const e = arc.ellipse;
+        ctx.ellipse(
+          e.x,
+          e.y,
+          e.rx,
+          e.ry,
+          e.rotation,
+          ellipseAngle(e, arc.p2),
+          ellipseAngle(e, arc.p1),
+          !arc.sweep
+        );
+      }
+    }
+  } else {
+    const { arcs } = intersectionArea(circles).stats;
+    if (arcs.length === 1) {
+      const c = arcs[0]!.circle;
+      ctx.arc(c.x, c.y, c.radius, 0, 2 * Math.PI);
+    } else if (arcs.length > 1) {
+      ctx.moveTo(arcs[0]!.p2.x, arcs[0]!.p2.y);
+      for (const arc of arcs) {
+        const c = arc.circle;
+        ctx.arc(
+          c.x,
+          c.y,
+          c.radius,
+          Math.atan2(arc.p2.y - c.y, arc.p2.x - c.x),
+          Math.atan2(arc.p1.y - c.y, arc.p1.x - c.x)
+        );
+      }
+    }
+  }
+  ctx.closePath();
+}
+
+/** Returns the ids of every set containing the point (x, y) */
+export function hitTest(
+  solution: VennSolution | CircleRecord,
+  x: number,
+  y: number
+) {
+  const circles =
+    "circles" in solution && Array.isArray(solution.circles)
+      ? solutionCircles(solution as VennSolution)
+      : (solution as CircleRecord);
+
+  var ret: string[] = [];
+  for (const setid of Object.keys(circles)) {
+    const circle = circles[setid]!;
+    const inside = isEllipse(circle)
+      ? ellipseContains(circle, { x, y })
+      : containedInCircles({ x, y }, [circle]);
+    if (inside) ret.push(setid);
+  }
+  return ret;
+}
@@ -1,3 +1,4 @@
+/** relative tolerance for comparing lengths, see tolerance() */
 const SMALL = 1e-10
 
 type Point = {
@@ -24,10 +25,51 @@ type Arc = {
 }
 
 /** Returns the intersection area of a bunch of circles (where each circle
- is an object having an x,y and radius property) */
-export function intersectionArea(circles: CircleCoordinates[]) {
+ is an object having an x,y and radius property). Passing an index built over
+ a superset of the circles lets repeated calls share their intersection points
+ and bounding box checks. A single call is quicker without one, however many
+ circles it has */
+export function intersectionArea(
+  circles: CircleCoordinates[],
+  index?: CircleIndex
+) {
+  // a circle repeated doesn't change the intersection, and has no
+  // intersection points with its copy
+  var unique: CircleCoordinates[] = []
+  for (const circle of circles) {
+    if (!unique.some((other) => coincident(circle, other))) {
+      unique.push(circle)
+    }
+  }
+  circles = unique
+
+  // circles whose bounding boxes don't meet can't share any area
+  var separate = false
+  for (var k = 0; k < circles.length && !separate; ++k) {
+    for (var l = k + 1; l < circles.length && !separate; ++l) {
+      const c1 = circles[k]!,
+        c2 = circles[l]!
+      separate = index
+        ? !index.overlaps(c1, c2)
+        : !boxesOverlap(boundingBox(c1), boundingBox(c2))
+    }
+  }
+  if (separate) {
+    return {
+      overlap: 0,
+      stats: {
+        area: 0,
+        arcArea: 0,
+        polygonArea: 0,
+        arcs: [] as Arc[],
+        innerPoints: [] as IntersectionPoint[],
+        intersectionPoints: [] as IntersectionPoint[],
+      },
+    }
+  }
+
   // get all the intersection points of the circles
-  var intersectionPoints = getIntersectionPoints(circles)
+  var intersectionPoints = getIntersectionPoints(circles, index)
 
   // filter out points that aren't included in all the circles
   var innerPoints = intersectionPoints.filter(function (p) {
@@ -48,7 +90,9 @@ export function intersectionArea(circles: CircleCoordinates[]) {
 
     innerPoints = innerPoints
       .map((p) => ({
-        ...p,
+        x: p.x,
+        y: p.y,
+        parentIndex: p.parentIndex,
         angle: Math.atan2(p.x - center.x, p.y - center.y),
       }))
       .sort((p1, p2) => p2.angle - p1.angle)
@@ -130,13 +174,14 @@ export function intersectionArea(circles: CircleCoordinates[]) {
     }
 
     // make sure the smallest circle is completely contained in all
-    // the other circles
+    // the other circles, touching their edge from the inside is fine
     var disjoint = false
     for (i = 0; i < circles.length; ++i) {
       const circle = circles[i] as CircleCoordinates
       if (circle === undefined) continue
       if (
-        distance(circle, smallest) > Math.abs(smallest.radius - circle.radius)
+        distance(circle, smallest) >
+        Math.abs(smallest.radius - circle.radius) + tolerance(circle, smallest)
       ) {
         disjoint = true
         break
@@ -150,7 +195,10 @@ export function intersectionArea(circles: CircleCoordinates[]) {
       arcs.push({
         circle: smallest,
         p1: { x: smallest.x, y: smallest.y + smallest.radius },
-        p2: { x: smallest.x - SMALL, y: smallest.y + smallest.radius },
+        p2: {
+          x: smallest.x - SMALL * smallest.radius,
+          y: smallest.y + smallest.radius,
+        },
         width: smallest.radius * 2,
       })
     }
@@ -176,7 +224,7 @@ export function containedInCircles(point: Point, circles: CircleCoordinates[]) {
   for (var i = 0; i < circles.length; ++i) {
     const circle = circles[i] as CircleCoordinates
     if (circle === undefined) continue
-    if (distance(point, circle) > circle.radius + SMALL) {
+    if (distance(point, circle) > circle.radius + tolerance(circle)) {
       return false
     }
   }
@@ -184,7 +232,10 @@ export function containedInCircles(point: Point, circles: CircleCoordinates[]) {
 }
 
 /** Gets all intersection points between a bunch of circles */
-function getIntersectionPoints(circles: CircleCoordinates[]) {
+function getIntersectionPoints(
+  circles: CircleCoordinates[],
+  index?: CircleIndex
+) {
   var ret: IntersectionPoint[] = []
   for (var i = 0; i < circles.length; ++i) {
     for (var j = i + 1; j < circles.length; ++j) {
@@ -192,18 +243,153 @@ function getIntersectionPoints(circles: CircleCoordinates[]) {
       const c2 = circles[j]
       if (!c1 || !c2) continue
 
-      var intersect = circleCircleIntersection(c1, c2)
+      // touching circles don't bound any area
+      var intersect = index
+        ? index.crossings(c1, c2)
+        : circleCircleIntersection(c1, c2)
+      if (intersect.length < 2) continue
 
       for (var k = 0; k < intersect.length; ++k) {
         let p = intersect[k]
         if (!p) continue
-        ret.push({ ...p, parentIndex: [i, j] })
+        ret.push({ x: p.x, y: p.y, parentIndex: [i, j] })
       }
     }
   }
   return ret
 }
 
+/** Lookups of pairs of circles from a fixed list. Points aren't indexed: a
+point of a region is checked against each of that region's circles anyway */
+export type CircleIndex = {
+  circles: CircleCoordinates[]
+  /** whether the bounding boxes of two circles overlap */
+  overlaps(c1: CircleCoordinates, c2: CircleCoordinates): boolean
+  /** circleCircleIntersection of two circles, worked out once per pair */
+  crossings(c1: CircleCoordinates, c2: CircleCoordinates): Point[]
+}
+
+type Box = { x0: number; y0: number; x1: number; y1: number }
+
+/** bounding box of a circle, padded by the tolerance so that circles that
+touch still overlap */
+function boundingBox(circle: CircleCoordinates): Box {
+  var r = circle.radius + tolerance(circle)
+  return {
+    x0: circle.x - r,
+    y0: circle.y - r,
+    x1: circle.x + r,
+    y1: circle.y + r,
+  }
+}
+
+function boxesOverlap(a: Box, b: Box) {
+  return a.x0 <= b.x1 && b.x0 <= a.x1 && a.y0 <= b.y1 && b.y0 <= a.y1
+}
+
+/** Builds an index over the circles with a sweep and prune: with the circles
+sorted by the left edge of their bounding box, only those still open when
+the sweep reaches a circle can overlap it. Open circles are kept in a heap
+on their right edge so the ones the sweep has passed come off the top. That
+finds every pair of overlapping bounding boxes in O(n log n + k), where k is
+the number of pairs whose boxes overlap along x. The index answers for the
+circles it was built with by identity, and falls back to direct checks for
+any others */
+export function createCircleIndex(circles: CircleCoordinates[]): CircleIndex {
+  var n = circles.length,
+    ids = new Map<CircleCoordinates, number>(),
+    boxes = circles.map(boundingBox),
+    order = circles.map((_, i) => i).sort((a, b) => boxes[a]!.x0 - boxes[b]!.x0),
+    pairs = new Set<number>(),
+    crossings = new Map<number, Point[]>()
+  circles.forEach((circle, i) => {
+    if (!ids.has(circle)) ids.set(circle, i)
+  })
+
+  var open: number[] = [],
+    right = (i: number) => boxes[i]!.x1
+  for (const i of order) {
+    const box = boxes[i]!
+    while (open.length && right(open[0]!) < box.x0) popMin(open, right)
+    for (const j of open) {
+      if (boxes[j]!.y0 <= box.y1 && box.y0 <= boxes[j]!.y1) {
+        pairs.add(Math.min(i, j) * n + Math.max(i, j))
+      }
+    }
+    pushMin(open, i, right)
+  }
+
+  function key(c1: CircleCoordinates, c2: CircleCoordinates) {
+    var i = ids.get(c1),
+      j = ids.get(c2)
+    if (i === undefined || j === undefined) return undefined
+    return Math.min(i, j) * n + Math.max(i, j)
+  }
+
+  function overlaps(c1: CircleCoordinates, c2: CircleCoordinates) {
+    var k = key(c1, c2)
+    if (k === undefined || c1 === c2) {
+      return boxesOverlap(boundingBox(c1), boundingBox(c2))
+    }
+    return pairs.has(k)
+  }
+
+  return {
+    circles,
+    overlaps,
+    crossings(c1, c2) {
+      if (!overlaps(c1, c2)) return []
+      var k = key(c1, c2)
+      if (k === undefined) return circleCircleIntersection(c1, c2)
+      var ret = crossings.get(k)
+      if (ret === undefined) {
+        // in the order the circles were indexed, so every caller sees the
+        // same points
+        ret =
+          ids.get(c1)! < ids.get(c2)!
+            ? circleCircleIntersection(c1, c2)
+            : circleCircleIntersection(c2, c1)
+        crossings.set(k, ret)
+      }
+      return ret
+    },
+  }
+}
+
+/** adds to a binary heap with the smallest key on top */
+function pushMin(heap: number[], item: number, key: (item: number) => number) {
+  var i = heap.length
+  heap.push(item)
+  while (i > 0) {
+    const parent = (i - 1) >> 1
+    if (key(heap[parent]!) <= key(item)) break
+    heap[i] = heap[parent]!
+    i = parent
+  }
+  heap[i] = item
+}
+
+/** takes the smallest key off a binary heap */
+function popMin(heap: number[], key: (item: number) => number) {
+  const top = heap[0],
+    last = heap.pop()
+  if (!heap.length || last === undefined) return top
+
+  var i = 0
+  for (;;) {
+    var child = 2 * i + 1
+    if (child >= heap.length) break
+    if (child + 1 < heap.length && key(heap[child + 1]!) < key(heap[child]!)) {
+      child++
+    }
+    if (key(heap[child]!) >= key(last)) break
+    heap[i] = heap[child]!
+    i = child
+  }
+  heap[i] = last
+  return top
+}
+
 /** Circular segment area calculation. See http://mathworld.wolfram.com/CircularSegment.html */
 export function circleArea(r: number, width: number) {
   return (
@@ -238,23 +424,70 @@ export function circleOverlap(r1: number, r2: number, d: number) {
   return circleArea(r1, w1) + circleArea(r2, w2)
 }
 
+/** Derivative of circleOverlap with respect to the distance d between the
+centers: minus the length of the chord shared by the two circles */
+export function circleOverlapDerivative(r1: number, r2: number, d: number) {
+  if (d >= r1 + r2 || d <= Math.abs(r1 - r2)) {
+    return 0
+  }
+
+  var a = (r1 * r1 - r2 * r2 + d * d) / (2 * d)
+  return -2 * Math.sqrt(Math.max(r1 * r1 - a * a, 0))
+}
+
+/** Absolute tolerance for lengths around some circles. Relative to their
+size and position, so that it means the same at unit scale as it does in
+pixels, where rounding errors grow with the coordinates */
+export function tolerance(...circles: CircleCoordinates[]) {
+  var scale = 0
+  for (const circle of circles) {
+    scale = Math.max(
+      scale,
+      circle.radius,
+      Math.abs(circle.x),
+      Math.abs(circle.y)
+    )
+  }
+  return SMALL * scale
+}
+
+/** returns whether two circles are the same, up to rounding */
+export function coincident(c1: CircleCoordinates, c2: CircleCoordinates) {
+  const eps = tolerance(c1, c2)
+  return distance(c1, c2) <= eps && Math.abs(c1.radius - c2.radius) <= eps
+}
+
 /** Given two circles (containing a x/y/radius attributes),
-returns the intersecting points if possible.
-note: doesn't handle cases where there are infinitely many
-intersection points (circles are equivalent):, or only one intersection point*/
+returns the intersecting points if possible. Circles that touch, from the
+outside or from the inside, give the single point they touch at. Identical
+circles have infinitely many intersection points, and give none */
 export function circleCircleIntersection(
   p1: CircleCoordinates,
   p2: CircleCoordinates
 ) {
   var d = distance(p1, p2),
     r1 = p1.radius,
-    r2 = p2.radius
+    r2 = p2.radius,
+    eps = tolerance(p1, p2)
 
-  // if to far away, or self contained - can't be done
-  if (d >= r1 + r2 || d <= Math.abs(r1 - r2)) {
+  // too far away, self contained or sharing a centre (as identical circles
+  // do) - no points
+  if (d > r1 + r2 + eps || d < Math.abs(r1 - r2) - eps || d <= eps) {
     return []
   }
 
+  // touching: the point on the line through the centres
+  if (d >= r1 + r2 - eps || d <= Math.abs(r1 - r2) + eps) {
+    // from the inside of p2, the point is on the far side of p1
+    var along = d >= r1 + r2 - eps || r1 > r2 ? r1 : -r1
+    return [
+      {
+        x: p1.x + (along * (p2.x - p1.x)) / d,
+        y: p1.y + (along * (p2.y - p1.y)) / d,
+      },
+    ]
+  }
+
   var a = (r1 * r1 - r2 * r2 + d * d) / (2 * d),
     h = Math.sqrt(r1 * r1 - a * a),
     x0 = p1.x + (a * (p2.x - p1.x)) / d,
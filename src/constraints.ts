@@ -0,0 +1,237 @@
+import type { Circle, CircleRecord } from "./layout";
+
+import { ellipseExtents } from "./ellipse-intersection";
+
+/** Constraints on where a set can be placed. Positions are in the units of
+the venn() output, where a set has radius sqrt(size / PI), and y grows
+downwards like on screen. vennSolution takes them in pixels instead, see
+ConstraintFrame */
+export type SetConstraint = {
+  /** keep the centre of the set at exactly this position */
+  centre?: { x: number; y: number };
+  /** keep the whole set inside this box */
+  bounds?: { xMin: number; xMax: number; yMin: number; yMax: number };
+  /** sets that this set's centre must be to the left of */
+  leftOf?: (string | number)[];
+  /** sets that this set's centre must be above */
+  above?: (string | number)[];
+};
+
+export type Constraints = Record<string | number, SetConstraint>;
+
+/** The pixels a constrained layout is drawn in: venn() position (x, y) is
+drawn at (x0 + scale * x, y0 + scale * y). vennSolution fixes it before the
+layout runs rather than fitting the result to the viewport, so that centres
+and bounds given in pixels end up where they were asked for */
+export type ConstraintFrame = { x0: number; y0: number; scale: number };
+
+/** weight of the constraint penalty relative to the area loss */
+const PENALTY = 1e3;
+
+/** returns whether any of the circles has a constraint on it, including
+being the other end of a leftOf or above */
+export function isConstrained(circles: Circle[], constraints?: Constraints) {
+  if (!constraints) return false;
+  var constrained = new Set<string>();
+  for (const setid in constraints) {
+    const constraint = constraints[setid]!;
+    constrained.add(setid);
+    for (const other of constraint.leftOf ?? []) constrained.add(String(other));
+    for (const other of constraint.above ?? []) constrained.add(String(other));
+  }
+  return circles.some((circle) => constrained.has(circle.setid));
+}
+
+/** returns whether any of the constraints pins a set to a position */
+export function hasAbsoluteConstraints(constraints: Constraints) {
+  return Object.values(constraints).some(
+    (constraint) => constraint.centre || constraint.bounds
+  );
+}
+
+/** Converts constraints given in the pixels of a frame to venn() units */
+export function constraintsInFrame(
+  constraints: Constraints,
+  { x0, y0, scale }: ConstraintFrame
+) {
+  const x = (px: number) => (px - x0) / scale,
+    y = (py: number) => (py - y0) / scale;
+
+  var ret: Constraints = {};
+  for (const setid in constraints) {
+    const { centre, bounds, ...relative } = constraints[setid]!;
+    ret[setid] = {
+      ...relative,
+      ...(centre ? { centre: { x: x(centre.x), y: y(centre.y) } } : {}),
+      ...(bounds
+        ? {
+            bounds: {
+              xMin: x(bounds.xMin),
+              xMax: x(bounds.xMax),
+              yMin: y(bounds.yMin),
+              yMax: y(bounds.yMax),
+            },
+          }
+        : {}),
+    };
+  }
+  return ret;
+}
+
+/** Counts the relative ordering constraints the circles break */
+function orderViolations(circles: CircleRecord, constraints: Constraints) {
+  var count = 0;
+  for (const setid in constraints) {
+    const circle = circles[setid],
+      constraint = constraints[setid]!;
+    if (!circle) continue;
+    for (const other of constraint.leftOf ?? []) {
+      if (circles[other] && circle.x > circles[other].x) count++;
+    }
+    for (const other of constraint.above ?? []) {
+      if (circles[other] && circle.y > circles[other].y) count++;
+    }
+  }
+  return count;
+}
+
+/** Mirrors an initial layout so that it breaks as few ordering constraints
+as possible, then moves circles so that every constraint holds */
+export function constrainLayout(circles: CircleRecord, constraints: Constraints) {
+  var best = { x: 1, y: 1 },
+    fewest = orderViolations(circles, constraints);
+  for (const flip of [
+    { x: -1, y: 1 },
+    { x: 1, y: -1 },
+    { x: -1, y: -1 },
+  ]) {
+    const flipped: CircleRecord = {};
+    for (const setid in circles) {
+      const circle = circles[setid]!;
+      flipped[setid] = { ...circle, x: flip.x * circle.x, y: flip.y * circle.y };
+    }
+    const violations = orderViolations(flipped, constraints);
+    if (violations < fewest) {
+      fewest = violations;
+      best = flip;
+    }
+  }
+
+  for (const setid in circles) {
+    const circle = circles[setid]!;
+    circle.x *= best.x;
+    circle.y *= best.y;
+    if (circle.rotation !== undefined && best.x * best.y < 0) {
+      circle.rotation = -circle.rotation;
+    }
+  }
+
+  projectConstraints(circles, constraints);
+  return circles;
+}
+
+/** Moves circles the least amount needed for the constraints to hold.
+Ordering constraints are resolved by moving both sets to their midpoint,
+which is repeated a few times since fixing one can break another */
+export function projectConstraints(
+  circles: CircleRecord,
+  constraints: Constraints
+) {
+  for (var pass = 0; pass < 10; ++pass) {
+    for (const setid in constraints) {
+      const circle = circles[setid],
+        constraint = constraints[setid]!;
+      if (!circle) continue;
+
+      for (const other of constraint.leftOf ?? []) {
+        const right = circles[other];
+        if (right && circle.x > right.x) {
+          circle.x = right.x = (circle.x + right.x) / 2;
+        }
+      }
+      for (const other of constraint.above ?? []) {
+        const below = circles[other];
+        if (below && circle.y > below.y) {
+          circle.y = below.y = (circle.y + below.y) / 2;
+        }
+      }
+    }
+
+    // absolute constraints win over relative ones
+    for (const setid in constraints) {
+      const circle = circles[setid],
+        constraint = constraints[setid]!;
+      if (!circle) continue;
+      if (constraint.bounds) {
+        const box = allowedCentres(circle, constraint.bounds);
+        circle.x = Math.min(Math.max(circle.x, box.xMin), box.xMax);
+        circle.y = Math.min(Math.max(circle.y, box.yMin), box.yMax);
+      }
+      if (constraint.centre) {
+        circle.x = constraint.centre.x;
+        circle.y = constraint.centre.y;
+      }
+    }
+
+    if (constraintPenalty(circles, constraints) === 0) break;
+  }
+  return circles;
+}
+
+/** Penalty added to the loss for breaking constraints, growing with the
+square of how far a set is from where it is allowed to be */
+export function constraintPenalty(
+  circles: CircleRecord,
+  constraints: Constraints
+) {
+  var penalty = 0;
+  function add(circle: Circle, violation: number) {
+    if (violation <= 0) return;
+    const scaled = ((circle.size ?? 1) * violation) / (circle.radius || 1);
+    penalty += PENALTY * scaled * scaled;
+  }
+
+  for (const setid in constraints) {
+    const circle = circles[setid],
+      constraint = constraints[setid]!;
+    if (!circle) continue;
+
+    if (constraint.centre) {
+      add(circle, Math.hypot(circle.x - constraint.centre.x, circle.y - constraint.centre.y));
+    }
+    if (constraint.bounds) {
+      const box = allowedCentres(circle, constraint.bounds);
+      add(circle, box.xMin - circle.x);
+      add(circle, circle.x - box.xMax);
+      add(circle, box.yMin - circle.y);
+      add(circle, circle.y - box.yMax);
+    }
+    for (const other of constraint.leftOf ?? []) {
+      if (circles[other]) add(circle, circle.x - circles[other].x);
+    }
+    for (const other of constraint.above ?? []) {
+      if (circles[other]) add(circle, circle.y - circles[other].y);
+    }
+  }
+  return penalty;
+}
+
+/** range of centres that keep the circle in the bounds, collapsing to the
+middle of the box if the circle doesn't fit */
+function allowedCentres(
+  circle: Circle,
+  bounds: NonNullable<SetConstraint["bounds"]>
+) {
+  var extents =
+    circle.rx !== undefined && circle.ry !== undefined
+      ? ellipseExtents({ ...circle, rx: circle.rx, ry: circle.ry, rotation: circle.rotation ?? 0 })
+      : { x: circle.radius, y: circle.radius };
+
+  var xMin = bounds.xMin + extents.x,
+    xMax = bounds.xMax - extents.x,
+    yMin = bounds.yMin + extents.y,
+    yMax = bounds.yMax - extents.y;
+  if (xMin > xMax) xMin = xMax = (bounds.xMin + bounds.xMax) / 2;
+  if (yMin > yMax) yMin = yMax = (bounds.yMin + bounds.yMax) / 2;
+  return { xMin, xMax, yMin, yMax };
+}
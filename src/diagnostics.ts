@@ -0,0 +1,170 @@
+import type { Area, Circle, CircleRecord } from "./layout";
+
+import { overlapArea } from "./layout";
+import { inclusiveToExclusive } from "./areas";
+
+export type RegionDiagnostic = {
+  sets: (string | number)[];
+  /** requested size of the region (0 for regions missing from the input) */
+  target: number;
+  /** size of the region as drawn */
+  fitted: number;
+  absoluteError: number;
+  /** absolute error relative to the target, Infinity for spurious regions */
+  relativeError: number;
+  /** region is drawn but should be empty */
+  spurious: boolean;
+  /** region should be there but isn't drawn */
+  dropped: boolean;
+};
+
+export type Diagnostics = {
+  regions: RegionDiagnostic[];
+  /** largest difference between the fitted and target proportions of an
+   * exclusive region, one that is in exactly its sets (eulerAPE) */
+  diagError: number;
+  /** normalized residual sum of squares of the exclusive regions after
+   * rescaling the targets to the fitted sizes (venneuler) */
+  stress: number;
+  /** unweighted squared error summed over every diagnosed region */
+  loss: number;
+  /** largest relative error in the size of a single set, only non zero
+   * when venn() was allowed to fit radii */
+  singletonDistortion: number;
+};
+
+export type DiagnoseOptions = {
+  /** sizes below tolerance * (largest set size) are treated as empty */
+  tolerance?: number;
+};
+
+/** Compares a layout against the areas it was computed from. Reports every
+region in the input, along with every region that is drawn without being
+asked for (any group of sets that all overlap each other) */
+export function diagnose(
+  solution: CircleRecord,
+  areas: Area[],
+  { tolerance = 1e-6 }: DiagnoseOptions = {}
+): Diagnostics {
+  var setids = Object.keys(solution),
+    largest = 0;
+  for (const setid of setids) {
+    largest = Math.max(largest, overlapArea([solution[setid]!]));
+  }
+  for (const area of areas) {
+    if (area.sets.length === 1) largest = Math.max(largest, area.size);
+  }
+  var empty = tolerance * largest;
+
+  var regions: RegionDiagnostic[] = [],
+    seen = new Set<string>();
+
+  function addRegion(sets: (string | number)[], target: number, fitted: number) {
+    var absoluteError = Math.abs(fitted - target);
+    regions.push({
+      sets: sets,
+      target: target,
+      fitted: fitted,
+      absoluteError: absoluteError,
+      relativeError:
+        target > empty
+          ? absoluteError / target
+          : fitted > empty
+            ? Infinity
+            : 0,
+      spurious: target <= empty && fitted > empty,
+      dropped: target > empty && fitted <= empty,
+    });
+  }
+
+  for (const area of areas) {
+    const circles = area.sets.map((set) => solution[set]);
+    if (circles.some((circle) => !circle)) continue;
+
+    seen.add(area.sets.map(String).sort().join(","));
+    addRegion(area.sets, area.size, overlapArea(circles as Circle[]));
+  }
+
+  // look for drawn regions that aren't in the input: only groups of sets
+  // where every pair overlaps can share any area
+  var overlaps = (a: string, b: string) =>
+    overlapArea([solution[a]!, solution[b]!]) > empty;
+
+  function extend(current: string[], start: number) {
+    for (var i = start; i < setids.length; ++i) {
+      const setid = setids[i]!;
+      if (!current.every((other) => overlaps(other, setid))) continue;
+
+      const sets = current.concat([setid]);
+      const fitted = overlapArea(sets.map((set) => solution[set]!));
+      if (fitted <= empty) continue;
+
+      if (!seen.has(sets.slice().sort().join(","))) {
+        addRegion(sets, 0, fitted);
+      }
+      extend(sets, i + 1);
+    }
+  }
+  extend([], 0);
+
+  var loss = 0;
+  for (const region of regions) {
+    loss += region.absoluteError * region.absoluteError;
+  }
+
+  // diagError and stress are defined on the exclusive regions. every group
+  // of sets that is drawn overlapping is in regions, so the other exclusive
+  // regions are empty both in the target and as drawn
+  const exclusive = (size: "target" | "fitted") =>
+    inclusiveToExclusive(
+      regions.map((region) => ({ sets: region.sets, size: region[size] }))
+    ).map((area) => area.size);
+  var targets = exclusive("target"),
+    fits = exclusive("fitted");
+
+  var totalTarget = 0,
+    totalFitted = 0,
+    crossProduct = 0,
+    targetSquares = 0,
+    fittedSquares = 0;
+  targets.forEach((target, i) => {
+    const fitted = fits[i]!;
+    totalTarget += target;
+    totalFitted += fitted;
+    crossProduct += fitted * target;
+    targetSquares += target * target;
+    fittedSquares += fitted * fitted;
+  });
+
+  var diagError = 0;
+  targets.forEach((target, i) => {
+    diagError = Math.max(
+      diagError,
+      Math.abs(
+        (totalFitted ? fits[i]! / totalFitted : 0) -
+          (totalTarget ? target / totalTarget : 0)
+      )
+    );
+  });
+
+  var beta = targetSquares ? crossProduct / targetSquares : 0,
+    residuals = 0;
+  targets.forEach((target, i) => {
+    residuals += Math.pow(fits[i]! - beta * target, 2);
+  });
+
+  var singletonDistortion = 0;
+  for (const region of regions) {
+    if (region.sets.length === 1 && region.target > empty) {
+      singletonDistortion = Math.max(singletonDistortion, region.relativeError);
+    }
+  }
+
+  return {
+    regions: regions,
+    diagError: diagError,
+    singletonDistortion: singletonDistortion,
+    stress: fittedSquares ? residuals / fittedSquares : 0,
+    loss: loss,
+  };
+}
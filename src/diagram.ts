@@ -1,10 +1,44 @@
-import type { Area, Circle, CircleRecord, Params } from "./layout";
+import type {
+  Area,
+  Circle,
+  CircleRecord,
+  ClusterPacking,
+  Ellipse,
+  LayoutName,
+  Params,
+} from "./layout";
 
 import { intersectionArea, distance, getCenter } from "./circle-intersection";
-import { venn, normalizeSolution, scaleSolution } from "./layout";
+import {
+  ellipseContains,
+  ellipseEllipseIntersection,
+  ellipseIntersectionArea,
+  ellipseMargin,
+  ellipsePoint,
+  type EllipseCoordinates,
+} from "./ellipse-intersection";
+import {
+  venn,
+  normalizeSolution,
+  scaleSolution,
+  isEllipse,
+  viewportFill,
+  getBoundingBox,
+} from "./layout";
+import {
+  constraintsInFrame,
+  hasAbsoluteConstraints,
+  type ConstraintFrame,
+  type Constraints,
+} from "./constraints";
+import { exclusiveToInclusive } from "./areas";
+import { diagnose } from "./diagnostics";
+import { layoutLabels, type LabelOptions } from "./labels";
+import { computePoleCentre } from "./polylabel";
+import { scalableVenn, type IntersectionFilter } from "./scalable";
 import { nelderMead } from "fmin";
 
-type GetVennSolutionOptions = {
+export type GetVennSolutionOptions = {
   /** orientation of the venn in radians */
   orientation: number;
   /** width of the venn */
@@ -18,9 +52,57 @@ type GetVennSolutionOptions = {
   /**  function to determine the order of the orientation */
   orientationOrder?: (a: Circle, b: Circle) => number;
   /** layout algorithm used during computations of the venn diagram */
-  layout?: "greedy" | "MDS" | "best";
+  layout?: LayoutName;
   /** number from 0-1 that to seed the random positions when using the MSDConstrainedLayout */
   seed?: number;
+  /** whether sizes count everything in the sets ("inclusive", default) or
+   * only what is in exactly those sets ("exclusive") */
+  input?: "inclusive" | "exclusive";
+  /** attach a diagnose() report on how well the layout fits the data */
+  diagnostics?: boolean;
+  /** previous solution to warm start from and keep the orientation of,
+   * e.g. solutionCircles() of the last vennSolution result */
+  previous?: CircleRecord;
+  /** how strongly sets are held near their previous positions */
+  stability?: number;
+  /** per set constraints on where sets can be placed, see SetConstraint.
+   * Centres and bounds are in pixels, and pinning any set draws the layout
+   * at a scale fixed up front rather than fitted to the viewport, see
+   * ConstraintFrame */
+  constraints?: Constraints;
+  /** optimiser used to refine the layout */
+  optimizer?: Params["optimizer"];
+  /** let venn() change set sizes a little to fit intersections better */
+  fitRadii?: boolean;
+  /** weight of the set size errors when fitting radii */
+  sizeWeight?: number;
+  /** called as the layout improves, see ProgressCallback */
+  onProgress?: Params["onProgress"];
+  /** time budget of the layout in milliseconds */
+  maxTimeMs?: number;
+  /** stop refining once this many iterations haven't improved the loss */
+  plateauIterations?: number;
+  /** relative improvement of the loss that counts as progress */
+  plateauTolerance?: number;
+  /** lay out labels that don't overlap, given a way to measure them. Each
+   * circle and intersection then gets the geometry of its label, unless
+   * there was no room left for it */
+  labels?: LabelOptions;
+  /** how the positions of the labels in each region are found */
+  textCentres?: TextCentreOptions;
+  /** lay out each group of overlapping sets on its own and pack the groups,
+   * for diagrams with dozens of sets. Can also drop negligible
+   * intersections first. Doesn't go with previous, constraints or
+   * onProgress */
+  scalable?: IntersectionFilter;
+  /** how sets that don't overlap any others are packed into width x height,
+   * see ClusterPacking. Giving it normalizes the layout even at the default
+   * orientation, as scalable layouts always are */
+  packing?: ClusterPacking["method"];
+  /** turn the layout to fill as much of width x height as it can rather
+   * than pointing it in 'orientation', see ClusterPacking. How much it
+   * fills is in the fill of the result either way */
+  fitAspectRatio?: boolean;
 };
 
 export function chartVega(data: Area[], options: GetVennSolutionOptions) {
@@ -108,8 +190,8 @@ export function chartVega(data: Area[], options: GetVennSolutionOptions) {
   };
 }
 
-export function vennSolution(
-  data: Area[],
+export function vennSolution<T = unknown>(
+  data: Area<T>[],
   {
     layout,
     height,
@@ -119,8 +201,29 @@ export function vennSolution(
     orientation,
     set_id_delimiter,
     orientationOrder,
+    input,
+    diagnostics,
+    previous,
+    stability,
+    constraints,
+    optimizer,
+    fitRadii,
+    sizeWeight,
+    onProgress,
+    maxTimeMs,
+    plateauIterations,
+    plateauTolerance,
+    labels,
+    textCentres,
+    scalable,
+    packing,
+    fitAspectRatio,
   }: GetVennSolutionOptions
 ) {
+  if (input === "exclusive") {
+    data = exclusiveToInclusive(data);
+  }
+
   const safeData = data.filter(
     (datum) => datum.size !== 0 && datum.sets.length > 0
   );
@@ -129,15 +232,98 @@ export function vennSolution(
     return { circles: [], intersections: [] };
   }
 
-  let solution = venn(safeData, { layout, seed });
+  if (scalable && (previous || constraints || onProgress)) {
+    throw "ERROR: scalable layouts don't support previous, constraints or onProgress";
+  }
 
-  if (orientation !== Math.PI / 2) {
-    solution = normalizeSolution(solution, orientation, orientationOrder);
+  let frame: ConstraintFrame | undefined;
+  if (constraints && hasAbsoluteConstraints(constraints)) {
+    frame = constraintFrame(safeData, width, height, padding);
+    constraints = constraintsInFrame(constraints, frame);
   }
 
-  // divide the width by a small amount so that the venn does not overflow
-  solution = scaleSolution(solution, width, height, padding);
-  const textCenters = computeTextCentres(solution, safeData);
+  // disjoint clusters get packed into the shape they're drawn in. padding
+  // that eats the whole viewport leaves no shape, so use the viewport's own
+  const aspectRatio =
+    [(width - 2 * padding) / (height - 2 * padding), width / height].find(
+      (ratio) => ratio > 0 && Number.isFinite(ratio)
+    ) ?? 1;
+  const clusterPacking = { method: packing, aspectRatio, fitAspectRatio };
+
+  let solution = scalable
+    ? scalableVenn(safeData, {
+        ...scalable,
+        orientation,
+        orientationOrder,
+        packing: clusterPacking,
+        layout,
+        seed,
+        optimizer,
+        fitRadii,
+        sizeWeight,
+        maxTimeMs,
+        plateauIterations,
+        plateauTolerance,
+      })
+    : venn(safeData, {
+        layout,
+        seed,
+        previous,
+        stability,
+        constraints,
+        optimizer,
+        fitRadii,
+        sizeWeight,
+        onProgress,
+        maxTimeMs,
+        plateauIterations,
+        plateauTolerance,
+      });
+  const report = diagnostics ? diagnose(solution, safeData) : undefined;
+
+  if (previous || constraints) {
+    solution = normalizeSolution(
+      solution,
+      orientation,
+      orientationOrder,
+      previous,
+      constraints,
+      clusterPacking
+    );
+  } else if (
+    // scalable layouts come back turned and packed already
+    !scalable &&
+    (orientation !== Math.PI / 2 || packing || fitAspectRatio)
+  ) {
+    solution = normalizeSolution(
+      solution,
+      orientation,
+      orientationOrder,
+      undefined,
+      undefined,
+      clusterPacking
+    );
+  }
+
+  let fill: number;
+  if (frame) {
+    solution = drawInFrame(solution, frame);
+    fill = frameFill(solution, width, height, padding);
+  } else {
+    fill = viewportFill(solution, aspectRatio);
+    // divide the width by a small amount so that the venn does not overflow
+    solution = scaleSolution(solution, width, height, padding);
+  }
+  const textCenters = computeTextCentres(solution, safeData, ",", textCentres);
+  const placed = labels
+    ? layoutLabels(
+        solution,
+        safeData,
+        { bounds: { width, height }, ...labels },
+        textCenters
+      )
+    : [];
+  const labelOf = new Map(placed.map((label) => [label.sets.join(","), label]));
 
   const intersections = safeData
     .map((datum) => {
@@ -152,24 +338,118 @@ export function vennSolution(
         textX: disjoint ? undefined : textX,
         textY: disjoint ? undefined : textY,
         size: datum.size,
+        exclusiveSize: datum.exclusiveSize,
+        elements: datum.elements,
+        exclusiveElements: datum.exclusiveElements,
+        label: labelOf.get(setName),
       };
     })
     .filter((datum) => datum.sets.length > 1);
 
+  const singletons = new Map(
+    safeData
+      .filter((datum) => datum.sets.length === 1)
+      .map((datum) => [String(datum.sets[0]), datum])
+  );
+
   const circles = Object.entries(solution).map(([key, circle]) => ({
     set_id: key,
+    // what the set is called on screen, its area's label if it has one
+    name: singletons.get(key)?.label ?? key,
+    exclusiveSize: singletons.get(key)?.exclusiveSize,
+    elements: singletons.get(key)?.elements,
+    exclusiveElements: singletons.get(key)?.exclusiveElements,
     x: circle.x,
     y: circle.y,
     // the size represents the radius, to scale we need to convert to the area of the square
     size: Math.pow(circle.radius * 2, 2),
-    textX: textCenters[key]!.x,
-    textY: textCenters[key]!.y,
+    // like intersections, left undefined when the set has no region of its own to label
+    textX: textCenters[key]!.disjoint ? undefined : textCenters[key]!.x,
+    textY: textCenters[key]!.disjoint ? undefined : textCenters[key]!.y,
+    label: labelOf.get(key),
+    fittedSize: circle.fittedSize,
+    ...(isEllipse(circle)
+      ? {
+          rx: circle.rx,
+          ry: circle.ry,
+          rotation: circle.rotation,
+          path: ellipsePath(circle.x, circle.y, circle.rx, circle.ry, circle.rotation),
+        }
+      : {}),
   }));
 
-  return { circles, intersections };
+  return { circles, intersections, diagnostics: report, fill };
+}
+
+/** Frame that constraints in pixels are converted with: the layout's origin
+in the middle of the viewport, at a scale where every set side by side fits
+the width and the largest set fits the height */
+function constraintFrame(
+  data: Area[],
+  width: number,
+  height: number,
+  padding: number
+): ConstraintFrame {
+  const radii = data
+    .filter((datum) => datum.sets.length === 1)
+    .map((datum) => Math.sqrt(datum.size / Math.PI));
+  const innerWidth = width - 2 * padding > 0 ? width - 2 * padding : width,
+    innerHeight = height - 2 * padding > 0 ? height - 2 * padding : height;
+  const scale = Math.min(
+    innerWidth / (2 * radii.reduce((a, b) => a + b, 0)),
+    innerHeight / (2 * Math.max(...radii))
+  );
+  return {
+    x0: width / 2,
+    y0: height / 2,
+    scale: scale > 0 && Number.isFinite(scale) ? scale : 1,
+  };
+}
+
+/** draws a venn() layout in the pixels of a frame */
+function drawInFrame(solution: CircleRecord, { x0, y0, scale }: ConstraintFrame) {
+  var drawn: CircleRecord = {};
+  for (const setid in solution) {
+    const circle = solution[setid]!;
+    drawn[setid] = {
+      ...circle,
+      x: x0 + scale * circle.x,
+      y: y0 + scale * circle.y,
+      radius: scale * circle.radius,
+      ...(isEllipse(circle)
+        ? { rx: scale * circle.rx, ry: scale * circle.ry }
+        : {}),
+    };
+  }
+  return drawn;
+}
+
+/** How much of the viewport inside the padding a solution drawn in pixels
+covers with its bounding box, leaving out what spills over the edges */
+function frameFill(
+  solution: CircleRecord,
+  width: number,
+  height: number,
+  padding: number
+) {
+  const { xRange, yRange } = getBoundingBox(Object.values(solution));
+  const innerWidth = width - 2 * padding,
+    innerHeight = height - 2 * padding;
+  if (!(innerWidth > 0 && innerHeight > 0)) return 0;
+
+  const coveredWidth =
+      Math.min(xRange.max, width - padding) - Math.max(xRange.min, padding),
+    coveredHeight =
+      Math.min(yRange.max, height - padding) - Math.max(yRange.min, padding);
+  if (!(coveredWidth > 0 && coveredHeight > 0)) return 0;
+  return (coveredWidth * coveredHeight) / (innerWidth * innerHeight);
 }
 
 export function intersectionAreaPath(circles: Circle[]) {
+  if (circles.some(isEllipse)) {
+    return ellipseIntersectionAreaPath(circles as Ellipse[]);
+  }
+
   const { stats } = intersectionArea(circles);
   var arcs = stats.arcs;
 
@@ -202,11 +482,75 @@ export function circlePath(x: number, y: number, r: number) {
   return ret.join(" ");
 }
 
+export function ellipseIntersectionAreaPath(ellipses: Ellipse[]) {
+  const { stats } = ellipseIntersectionArea(ellipses);
+  var arcs = stats.arcs;
+
+  if (arcs.length === 0) {
+    return "M 0 0";
+  }
+
+  if (arcs.length === 1) {
+    var ellipse = arcs[0]!.ellipse;
+    return ellipsePath(ellipse.x, ellipse.y, ellipse.rx, ellipse.ry, ellipse.rotation);
+  }
+
+  var ret = ["\nM", arcs[0]!.p2.x, arcs[0]!.p2.y];
+  for (const arc of arcs) {
+    const { rx, ry, rotation } = arc.ellipse;
+    ret.push(
+      "\nA",
+      rx,
+      ry,
+      (rotation * 180) / Math.PI,
+      arc.large ? 1 : 0,
+      arc.sweep ? 1 : 0,
+      arc.p1.x,
+      arc.p1.y
+    );
+  }
+
+  return ret.join(" ");
+}
+
+/** svg path of an ellipse with semi axes rx/ry, rotated by 'rotation' radians */
+export function ellipsePath(
+  x: number,
+  y: number,
+  rx: number,
+  ry: number,
+  rotation: number
+) {
+  var c = Math.cos(rotation),
+    s = Math.sin(rotation),
+    dx = rx * c,
+    dy = rx * s,
+    degrees = (rotation * 180) / Math.PI;
+  var ret: (string | number)[] = [];
+  ret.push("\nM", x - dx, y - dy);
+  ret.push("\nA", rx, ry, degrees, 1, 0, x + dx, y + dy);
+  ret.push("\nA", rx, ry, degrees, 1, 0, x - dx, y - dy);
+  return ret.join(" ");
+}
+
+export type TextCentreOptions = {
+  /** "nelderMead" (default) refines the best of a few sampled points,
+   * "polylabel" searches the whole region for the point furthest from its
+   * edges, to within 'precision' */
+  algorithm?: "nelderMead" | "polylabel";
+  /** how close to the best possible margin polylabel has to get, defaults
+   * to a thousandth of the size of the region. Has to be positive */
+  precision?: number;
+  /** don't warn about areas that aren't drawn, e.g. while animating */
+  quiet?: boolean;
+};
+
 export type TextCenterRecord = ReturnType<typeof computeTextCentres>;
 export function computeTextCentres(
   circles: CircleRecord,
   areas: Area[],
-  delimiter = ","
+  delimiter = ",",
+  { algorithm = "nelderMead", precision, quiet }: TextCentreOptions = {}
 ) {
   var ret: Record<
     string | number,
@@ -215,41 +559,55 @@ export function computeTextCentres(
     overlapped = getOverlappingCircles(circles);
   for (var i = 0; i < areas.length; ++i) {
     var area = areas[i]!.sets,
-      areaids: Record<string, boolean> = {},
-      exclude: Record<string, boolean> = {};
-    for (var j = 0; j < area.length; ++j) {
-      areaids[area[j]!]! = true;
-      var overlaps = overlapped[area[j]!];
-      // keep track of any circles that overlap this area,
-      // and don't consider for purposes of computing the text
-      // centre
-      if (!overlaps) continue;
-
-      for (var k = 0; k < overlaps.length; ++k) {
-        exclude[overlaps[k]!] = true;
-      }
-    }
+      { interior, exterior } = regionCircles(circles, area, overlapped);
 
-    var interior: Circle[] = [],
-      exterior: Circle[] = [];
-    for (var setid in circles) {
-      if (setid in areaids) {
-        interior.push(circles[setid]!);
-      } else if (!(setid in exclude)) {
-        exterior.push(circles[setid]!);
-      }
-    }
-
-    var centre = computeTextCentre(interior, exterior);
+    var centre =
+      algorithm === "polylabel"
+        ? computePoleCentre(interior, exterior, precision)
+        : computeTextCentre(interior, exterior);
     ret[area.join(delimiter)] = centre;
 
-    if (centre.disjoint && areas[i]!.size > 0) {
+    if (centre.disjoint && areas[i]!.size > 0 && !quiet) {
       console.log("WARNING: area " + area + " not represented on screen");
     }
   }
   return ret;
 }
 
+/** Splits the circles into the ones the region of 'sets' is inside of and
+the ones that are cut out of it */
+export function regionCircles(
+  circles: CircleRecord,
+  sets: (string | number)[],
+  overlapped = getOverlappingCircles(circles)
+) {
+  var areaids: Record<string, boolean> = {},
+    exclude: Record<string, boolean> = {};
+  for (var j = 0; j < sets.length; ++j) {
+    areaids[sets[j]!]! = true;
+    var overlaps = overlapped[sets[j]!];
+    // keep track of any circles that overlap this area,
+    // and don't consider for purposes of computing the text
+    // centre
+    if (!overlaps) continue;
+
+    for (var k = 0; k < overlaps.length; ++k) {
+      exclude[overlaps[k]!] = true;
+    }
+  }
+
+  var interior: Circle[] = [],
+    exterior: Circle[] = [];
+  for (var setid in circles) {
+    if (setid in areaids) {
+      interior.push(circles[setid]!);
+    } else if (!(setid in exclude)) {
+      exterior.push(circles[setid]!);
+    }
+  }
+  return { interior, exterior };
+}
+
 function getOverlappingCircles(circles: CircleRecord) {
   var ret: Record<string, string[]> = {},
     circleids = Object.keys(circles);
@@ -260,12 +618,11 @@ function getOverlappingCircles(circles: CircleRecord) {
     var a = circles[circleids[i]!];
 
     for (var j = i + 1; j < circleids.length; ++j) {
-      var b = circles[circleids[j]!],
-        d = distance(a!, b!);
+      var b = circles[circleids[j]!];
 
-      if (d + b!.radius <= a!.radius + 1e-10) {
+      if (contains(a!, b!)) {
         ret[circleids[j]!]!.push(circleids[i]!);
-      } else if (d + a!.radius <= b!.radius + 1e-10) {
+      } else if (contains(b!, a!)) {
         ret[circleids[i]!]!.push(circleids[j]!);
       }
     }
@@ -273,6 +630,31 @@ function getOverlappingCircles(circles: CircleRecord) {
   return ret;
 }
 
+/** whether 'inner' is entirely inside 'outer'. Ellipses can't be compared
+by radius: they are nested when their outlines don't cross and a point of
+the inner outline is inside the outer one */
+function contains(outer: Circle, inner: Circle) {
+  if (!isEllipse(outer) && !isEllipse(inner)) {
+    return distance(outer, inner) + inner.radius <= outer.radius + 1e-10;
+  }
+  const o = toEllipse(outer),
+    i = toEllipse(inner);
+  return (
+    ellipseEllipseIntersection(i, o).length === 0 &&
+    ellipseContains(o, ellipsePoint(i, 0))
+  );
+}
+
+function toEllipse(circle: Circle): EllipseCoordinates {
+  return {
+    x: circle.x,
+    y: circle.y,
+    rx: circle.rx ?? circle.radius,
+    ry: circle.ry ?? circle.radius,
+    rotation: circle.rotation ?? 0,
+  };
+}
+
 // compute the center of some circles by maximizing the margin of
 // the center point relative to the circles (interior) after subtracting
 // nearby circles (exterior)
@@ -318,14 +700,14 @@ export function computeTextCentre(interior: Circle[], exterior: Circle[]) {
   // etc)
   var valid = true;
   for (i = 0; i < interior.length; ++i) {
-    if (distance(ret, interior[i]!) > interior[i]!.radius) {
+    if (shapeMargin(interior[i]!, ret) < 0) {
       valid = false;
       break;
     }
   }
 
   for (i = 0; i < exterior.length; ++i) {
-    if (distance(ret, exterior[i]!) < exterior[i]!.radius) {
+    if (shapeMargin(exterior[i]!, ret) > 0) {
       valid = false;
       break;
     }
@@ -335,14 +717,18 @@ export function computeTextCentre(interior: Circle[], exterior: Circle[]) {
     if (interior.length == 1) {
       ret = { x: interior[0]!.x, y: interior[0]!.y };
     } else {
-      const { stats: areaStats } = intersectionArea(interior);
+      const { stats: areaStats } = interior.some(isEllipse)
+        ? ellipseIntersectionArea(interior as Ellipse[])
+        : intersectionArea(interior);
 
       if (areaStats.arcs.length === 0) {
         ret = { x: 0, y: -1000, disjoint: true };
       } else if (areaStats.arcs.length === 1) {
+        const arc = areaStats.arcs[0]!;
+        const shape = "circle" in arc ? arc.circle : arc.ellipse;
         ret = {
-          x: areaStats.arcs[0]!.circle.x,
-          y: areaStats.arcs[0]!.circle.y,
+          x: shape.x,
+          y: shape.y,
         };
       } else if (exterior.length) {
         // try again without other circles
@@ -364,27 +750,36 @@ export function computeTextCentre(interior: Circle[], exterior: Circle[]) {
   return ret;
 }
 
-function circleMargin(
+/** distance from a point to the edge of the region inside all of the
+interior sets and outside all of the exterior ones, negative outside it */
+export function circleMargin(
   current: { x: number; y: number },
   interior: Circle[],
   exterior: Circle[]
 ) {
-  var margin = interior[0]!.radius - distance(interior[0]!, current),
+  var margin = shapeMargin(interior[0]!, current),
     i,
     m;
 
   for (i = 1; i < interior.length; ++i) {
-    m = interior[i]!.radius - distance(interior[i]!, current);
+    m = shapeMargin(interior[i]!, current);
     if (m <= margin) {
       margin = m;
     }
   }
 
   for (i = 0; i < exterior.length; ++i) {
-    m = distance(exterior[i]!, current) - exterior[i]!.radius;
+    m = -shapeMargin(exterior[i]!, current);
     if (m <= margin) {
       margin = m;
     }
   }
   return margin;
 }
+
+/** signed distance from a point to the edge of a set, positive inside */
+export function shapeMargin(circle: Circle, current: { x: number; y: number }) {
+  return isEllipse(circle)
+    ? ellipseMargin(circle, current)
+    : circle.radius - distance(circle, current);
+}
@@ -0,0 +1,329 @@
+const SMALL = 1e-10
+
+/** number of samples taken along an ellipse when searching for intersections */
+const ROOT_SAMPLES = 96
+
+type Point = {
+  x: number
+  y: number
+  angle?: number
+}
+
+type IntersectionPoint = Point & {
+  parentIndex: [number, number]
+}
+
+export type EllipseCoordinates = {
+  x: number
+  y: number
+  /** semi axis along the (rotated) x axis */
+  rx: number
+  /** semi axis along the (rotated) y axis */
+  ry: number
+  /** rotation of the ellipse in radians */
+  rotation: number
+}
+
+export type EllipseArc = {
+  ellipse: EllipseCoordinates
+  p1: IntersectionPoint | Point
+  p2: IntersectionPoint | Point
+  /** area between the chord p2 -> p1 and the arc */
+  area: number
+  /** svg large-arc flag */
+  large: boolean
+  /** svg sweep flag, true when the arc follows increasing parametric angle */
+  sweep: boolean
+}
+
+/** Returns the intersection area of a bunch of ellipses. Mirrors
+intersectionArea: the region is split into the polygon spanned by the
+inner intersection points plus one elliptical segment per edge */
+export function ellipseIntersectionArea(ellipses: EllipseCoordinates[]) {
+  var intersectionPoints = getEllipseIntersectionPoints(ellipses)
+
+  var innerPoints = intersectionPoints.filter(function (p) {
+    return containedInEllipses(p, ellipses)
+  })
+
+  var arcArea = 0,
+    polygonArea = 0,
+    arcs: EllipseArc[] = [],
+    i
+
+  if (innerPoints.length > 1) {
+    var center = getEllipseCenter(innerPoints)
+
+    innerPoints = innerPoints
+      .map((p) => ({
+        ...p,
+        angle: Math.atan2(p.x - center.x, p.y - center.y),
+      }))
+      .sort((p1, p2) => p2.angle - p1.angle)
+
+    // signed shoelace sum tells us which side of each edge is outside
+    var signed = 0
+    var prev = innerPoints[innerPoints.length - 1] as IntersectionPoint
+    for (const p of innerPoints) {
+      signed += (prev.x + p.x) * (p.y - prev.y)
+      prev = p
+    }
+    var outside = signed > 0 ? 1 : -1
+
+    var p2 = innerPoints[innerPoints.length - 1] as IntersectionPoint
+    for (i = 0; i < innerPoints.length; ++i) {
+      var p1 = innerPoints[i] as IntersectionPoint
+      var arc: EllipseArc | null = null
+
+      for (const index of p1.parentIndex) {
+        if (p2.parentIndex.indexOf(index) === -1) continue
+        var candidate = ellipseArc(
+          ellipses[index] as EllipseCoordinates,
+          p2,
+          p1,
+          outside
+        )
+
+        // the innermost arc is the one bounding the intersection
+        if (arc === null || candidate.area < arc.area) {
+          arc = candidate
+        }
+      }
+
+      if (arc !== null) {
+        polygonArea += (p2.x + p1.x) * (p1.y - p2.y)
+        arcs.push(arc)
+        arcArea += arc.area
+        p2 = p1
+      }
+    }
+    polygonArea = Math.abs(polygonArea) / 2
+  } else {
+    // no intersection region made from crossings: either disjoint or the
+    // smallest ellipse is completely inside all the others
+    var smallest = ellipses[0] as EllipseCoordinates
+    for (i = 1; i < ellipses.length; ++i) {
+      const compare = ellipses[i] as EllipseCoordinates
+      if (compare.rx * compare.ry < smallest.rx * smallest.ry) {
+        smallest = compare
+      }
+    }
+
+    var samples = [0, Math.PI / 2, Math.PI, (3 * Math.PI) / 2].map((t) =>
+      ellipsePoint(smallest, t)
+    )
+    var disjoint = false
+    for (const ellipse of ellipses) {
+      if (ellipse === smallest) continue
+      if (!samples.every((p) => ellipseContains(ellipse, p))) {
+        disjoint = true
+        break
+      }
+    }
+
+    if (!disjoint && smallest) {
+      arcArea = Math.PI * smallest.rx * smallest.ry
+      const start = ellipsePoint(smallest, 0)
+      arcs.push({
+        ellipse: smallest,
+        p1: start,
+        p2: start,
+        area: arcArea,
+        large: true,
+        sweep: true,
+      })
+    }
+  }
+
+  return {
+    overlap: arcArea + polygonArea,
+    stats: {
+      area: arcArea + polygonArea,
+      arcArea: arcArea,
+      polygonArea: polygonArea,
+      arcs: arcs,
+      innerPoints: innerPoints,
+      intersectionPoints: intersectionPoints,
+    },
+  }
+}
+
+/** picks the arc of an ellipse going from 'from' to 'to' that lies on the
+given side of the chord between them */
+function ellipseArc(
+  ellipse: EllipseCoordinates,
+  from: Point,
+  to: Point,
+  outside: number
+): EllipseArc {
+  var t1 = ellipseAngle(ellipse, from),
+    t2 = ellipseAngle(ellipse, to)
+
+  var span = t2 - t1
+  while (span < 0) span += 2 * Math.PI
+  while (span >= 2 * Math.PI) span -= 2 * Math.PI
+
+  // the midpoint of the arc with increasing parametric angle
+  var mid = ellipsePoint(ellipse, t1 + span / 2)
+  var cross = (to.x - from.x) * (mid.y - from.y) - (to.y - from.y) * (mid.x - from.x)
+
+  var sweep = cross * outside <= 0
+  if (!sweep) {
+    span = 2 * Math.PI - span
+  }
+
+  return {
+    ellipse: ellipse,
+    p1: to,
+    p2: from,
+    area: ellipseSegmentArea(ellipse, span),
+    large: span > Math.PI,
+    sweep: sweep,
+  }
+}
+
+/** Area between an elliptical arc spanning 'angle' radians of parametric
+angle and its chord. An affine image of the circular segment */
+export function ellipseSegmentArea(ellipse: EllipseCoordinates, angle: number) {
+  return ((ellipse.rx * ellipse.ry) / 2) * (angle - Math.sin(angle))
+}
+
+/** returns the point on the ellipse at parametric angle t */
+export function ellipsePoint(ellipse: EllipseCoordinates, t: number): Point {
+  var c = Math.cos(ellipse.rotation),
+    s = Math.sin(ellipse.rotation),
+    u = ellipse.rx * Math.cos(t),
+    v = ellipse.ry * Math.sin(t)
+  return { x: ellipse.x + u * c - v * s, y: ellipse.y + u * s + v * c }
+}
+
+/** returns the parametric angle of a point (assumed to be on the ellipse) */
+export function ellipseAngle(ellipse: EllipseCoordinates, point: Point) {
+  var local = toLocal(ellipse, point)
+  return Math.atan2(local.y / ellipse.ry, local.x / ellipse.rx)
+}
+
+function toLocal(ellipse: EllipseCoordinates, point: Point) {
+  var c = Math.cos(ellipse.rotation),
+    s = Math.sin(ellipse.rotation),
+    dx = point.x - ellipse.x,
+    dy = point.y - ellipse.y
+  return { x: dx * c + dy * s, y: -dx * s + dy * c }
+}
+
+/** Value of the implicit ellipse equation at a point: < 1 inside,
+1 on the boundary and > 1 outside */
+export function ellipseImplicit(ellipse: EllipseCoordinates, point: Point) {
+  var local = toLocal(ellipse, point)
+  return (
+    (local.x * local.x) / (ellipse.rx * ellipse.rx) +
+    (local.y * local.y) / (ellipse.ry * ellipse.ry)
+  )
+}
+
+/** returns whether a point is inside an ellipse */
+export function ellipseContains(ellipse: EllipseCoordinates, point: Point) {
+  return ellipseImplicit(ellipse, point) <= 1 + 1e-8
+}
+
+/** returns whether a point is contained by all of a list of ellipses */
+export function containedInEllipses(
+  point: Point,
+  ellipses: EllipseCoordinates[]
+) {
+  for (const ellipse of ellipses) {
+    if (!ellipseContains(ellipse, point)) {
+      return false
+    }
+  }
+  return true
+}
+
+/** Approximate signed distance from a point to the ellipse boundary,
+positive inside. Exact for circles */
+export function ellipseMargin(ellipse: EllipseCoordinates, point: Point) {
+  return (
+    (1 - Math.sqrt(ellipseImplicit(ellipse, point))) *
+    Math.min(ellipse.rx, ellipse.ry)
+  )
+}
+
+/** Returns the half width / half height of the axis aligned bounding box */
+export function ellipseExtents(ellipse: EllipseCoordinates) {
+  var c = Math.cos(ellipse.rotation),
+    s = Math.sin(ellipse.rotation)
+  return {
+    x: Math.sqrt(ellipse.rx * ellipse.rx * c * c + ellipse.ry * ellipse.ry * s * s),
+    y: Math.sqrt(ellipse.rx * ellipse.rx * s * s + ellipse.ry * ellipse.ry * c * c),
+  }
+}
+
+/** Given two ellipses, returns their intersection points. Found numerically
+by walking the boundary of the first ellipse and bisecting sign changes of
+the second ellipse's implicit equation */
+export function ellipseEllipseIntersection(
+  e1: EllipseCoordinates,
+  e2: EllipseCoordinates
+) {
+  var ret: Point[] = []
+
+  // quick rejection on the bounding circles
+  var d = Math.sqrt((e1.x - e2.x) * (e1.x - e2.x) + (e1.y - e2.y) * (e1.y - e2.y))
+  if (d >= Math.max(e1.rx, e1.ry) + Math.max(e2.rx, e2.ry)) {
+    return ret
+  }
+
+  var f = (t: number) => ellipseImplicit(e2, ellipsePoint(e1, t)) - 1
+  var step = (2 * Math.PI) / ROOT_SAMPLES,
+    previous = f(0)
+
+  for (var i = 1; i <= ROOT_SAMPLES; ++i) {
+    var t = i * step,
+      current = f(t)
+    if (previous === 0 || previous * current < 0) {
+      var lo = t - step,
+        hi = t,
+        flo = previous
+      for (var k = 0; k < 60 && hi - lo > SMALL; ++k) {
+        var mid = (lo + hi) / 2,
+          fmid = f(mid)
+        if (flo * fmid <= 0) {
+          hi = mid
+        } else {
+          lo = mid
+          flo = fmid
+        }
+      }
+      ret.push(ellipsePoint(e1, (lo + hi) / 2))
+    }
+    previous = current
+  }
+  return ret
+}
+
+/** Gets all intersection points between a bunch of ellipses */
+function getEllipseIntersectionPoints(ellipses: EllipseCoordinates[]) {
+  var ret: IntersectionPoint[] = []
+  for (var i = 0; i < ellipses.length; ++i) {
+    for (var j = i + 1; j < ellipses.length; ++j) {
+      const e1 = ellipses[i]
+      const e2 = ellipses[j]
+      if (!e1 || !e2) continue
+
+      for (const p of ellipseEllipseIntersection(e1, e2)) {
+        ret.push({ ...p, parentIndex: [i, j] })
+      }
+    }
+  }
+  return ret
+}
+
+function getEllipseCenter(points: Point[]) {
+  var x = 0,
+    y = 0
+  for (const p of points) {
+    x += p.x
+    y += p.y
+  }
+  return { x: x / points.length, y: y / points.length }
+}
@@ -0,0 +1,168 @@
+import type { Circle } from "./layout";
+
+import { getBoundingBox } from "./layout";
+
+export type EstimateOptions = {
+  /** largest error allowed in the returned area, defaults to 1e-4 times
+   * the area of the bounding box of the interior circles */
+  maxError?: number;
+  /** most cells to split before giving up on maxError, default 1e6 */
+  maxCells?: number;
+};
+
+type Cell = { x: number; y: number; w: number; h: number };
+
+/** Estimates the area inside all of the interior circles and outside all of
+the exterior ones, independently of intersectionArea. The bounds are split
+into quarters until every cell is known to be inside or outside the region,
+except for cells along its edges. Those count for half their area, so the
+area is off by at most half of what is left undecided, which is returned as
+'error'. It stops once that is below maxError, or after maxCells splits */
+export function estimateArea(
+  interior: Circle[],
+  exterior: Circle[] = [],
+  { maxError, maxCells = 1e6 }: EstimateOptions = {}
+) {
+  if (!interior.length) {
+    throw "ERROR: estimateArea needs at least one interior circle";
+  }
+
+  // the region is inside the bounds of every interior circle
+  var x0 = -Infinity,
+    y0 = -Infinity,
+    x1 = Infinity,
+    y1 = Infinity;
+  for (const circle of interior) {
+    const { xRange, yRange } = getBoundingBox([circle]);
+    x0 = Math.max(x0, xRange.min);
+    x1 = Math.min(x1, xRange.max);
+    y0 = Math.max(y0, yRange.min);
+    y1 = Math.min(y1, yRange.max);
+  }
+  if (!(x1 > x0 && y1 > y0)) {
+    return { area: 0, error: 0 };
+  }
+  maxError = maxError ?? (x1 - x0) * (y1 - y0) * 1e-4;
+  const inside = interior.map(toShape),
+    outside = exterior.map(toShape);
+
+  var area = 0,
+    undecided = 0,
+    queue: Cell[] = [],
+    next = 0;
+  function visit(cell: Cell) {
+    const state = regionState(cell, inside, outside);
+    if (state > 0) {
+      area += cell.w * cell.h;
+    } else if (state === 0) {
+      queue.push(cell);
+      undecided += cell.w * cell.h;
+    }
+  }
+
+  // biggest cells first, which is the order they were queued in
+  visit({ x: x0, y: y0, w: x1 - x0, h: y1 - y0 });
+  while (next < queue.length && undecided / 2 > maxError && next < maxCells) {
+    const cell = queue[next]!;
+    // let the processed part of the queue go now and then
+    if (++next > 4096 && next * 2 > queue.length) {
+      queue = queue.slice(next);
+      maxCells -= next;
+      next = 0;
+    }
+
+    undecided -= cell.w * cell.h;
+    const w = cell.w / 2,
+      h = cell.h / 2;
+    visit({ x: cell.x, y: cell.y, w, h });
+    visit({ x: cell.x + w, y: cell.y, w, h });
+    visit({ x: cell.x, y: cell.y + h, w, h });
+    visit({ x: cell.x + w, y: cell.y + h, w, h });
+  }
+
+  return { area: area + undecided / 2, error: undecided / 2 };
+}
+
+/** a circle or ellipse with what it takes to map points to where it is the
+unit circle */
+type Shape = {
+  x: number;
+  y: number;
+  c: number;
+  s: number;
+  rx: number;
+  ry: number;
+};
+
+function toShape(circle: Circle): Shape {
+  return {
+    x: circle.x,
+    y: circle.y,
+    c: Math.cos(circle.rotation ?? 0),
+    s: Math.sin(circle.rotation ?? 0),
+    rx: circle.rx ?? circle.radius,
+    ry: circle.ry ?? circle.radius,
+  };
+}
+
+/** 1 if the cell is in the region, -1 if it is out, 0 if it's not known */
+function regionState(cell: Cell, interior: Shape[], exterior: Shape[]) {
+  var known = true;
+  for (const shape of interior) {
+    const state = cellState(cell, shape);
+    if (state < 0) return -1;
+    if (state === 0) known = false;
+  }
+  for (const shape of exterior) {
+    const state = cellState(cell, shape);
+    if (state > 0) return -1;
+    if (state === 0) known = false;
+  }
+  return known ? 1 : 0;
+}
+
+const cornersX = [0, 0, 0, 0],
+  cornersY = [0, 0, 0, 0];
+
+/** 1 if the cell is inside the shape, -1 if it is outside and 0 if the edge
+of the shape crosses it. Works on the cell mapped to where the shape is the
+unit circle, where it is a parallelogram */
+function cellState(cell: Cell, shape: Shape) {
+  var inside = true;
+  for (var i = 0; i < 4; ++i) {
+    const dx = cell.x + (i === 1 || i === 2 ? cell.w : 0) - shape.x,
+      dy = cell.y + (i >= 2 ? cell.h : 0) - shape.y;
+    const x = (dx * shape.c + dy * shape.s) / shape.rx,
+      y = (-dx * shape.s + dy * shape.c) / shape.ry;
+    cornersX[i] = x;
+    cornersY[i] = y;
+    if (x * x + y * y > 1) inside = false;
+  }
+
+  // convex, so inside once every corner is
+  if (inside) return 1;
+
+  // otherwise outside when the nearest point of the cell is
+  var containsCentre = true;
+  for (var i = 0; i < 4; ++i) {
+    const ax = cornersX[i]!,
+      ay = cornersY[i]!,
+      bx = cornersX[(i + 1) % 4]!,
+      by = cornersY[(i + 1) % 4]!;
+    if (ax * by - ay * bx < 0) containsCentre = false;
+    if (segmentDistance(ax, ay, bx, by) < 1) return 0;
+  }
+  return containsCentre ? 0 : -1;
+}
+
+/** distance from the origin to the segment (ax, ay) - (bx, by) */
+function segmentDistance(ax: number, ay: number, bx: number, by: number) {
+  const dx = bx - ax,
+    dy = by - ay,
+    length = dx * dx + dy * dy;
+  const t =
+    length > 0 ? Math.min(Math.max(-(ax * dx + ay * dy) / length, 0), 1) : 0;
+  const x = ax + t * dx,
+    y = ay + t * dy;
+  return Math.sqrt(x * x + y * y);
+}
@@ -0,0 +1,112 @@
+import type { Area, Circle, CircleRecord } from "./layout";
+
+import {
+  createCircleIndex,
+  intersectionArea,
+  circleOverlap,
+  circleOverlapDerivative,
+  distance,
+  type CircleIndex,
+} from "./circle-intersection";
+
+export type Gradient = Record<
+  string | number,
+  { x: number; y: number; radius: number }
+>;
+
+/** Computes lossFunction along with its gradient with respect to the centre
+of every circle. Pairwise terms use the derivative of circleOverlap, higher
+order terms use the boundary arcs of the intersection: moving a circle grows
+the region along the arcs that circle contributes, so the derivative of the
+area is the integral of the arc's outward normal, which works out to the
+arc's chord turned by 90 degrees. Growing a circle's radius grows the
+region by the length of those same arcs */
+export function lossGradient(sets: CircleRecord, overlaps: Area[]) {
+  var loss = 0,
+    gradient: Gradient = {},
+    index: CircleIndex | undefined;
+  for (const setid in sets) {
+    gradient[setid] = { x: 0, y: 0, radius: 0 };
+  }
+
+  for (const area of overlaps) {
+    if (area.sets.length === 1) continue;
+
+    const circles = area.sets.map((set) => sets[set]);
+    if (circles.some((circle) => circle === undefined)) continue;
+
+    var weight = area.weight ? area.weight : 1.0,
+      overlap: number;
+
+    if (area.sets.length === 2) {
+      const left = circles[0]!,
+        right = circles[1]!,
+        d = distance(left, right);
+      overlap = circleOverlap(left.radius, right.radius, d);
+
+      const error = 2 * weight * (overlap - area.size),
+        l = gradient[area.sets[0]!]!,
+        r = gradient[area.sets[1]!]!;
+      const scale =
+        error * circleOverlapDerivative(left.radius, right.radius, d);
+      if (scale !== 0 && d > 0) {
+        const dx = (left.x - right.x) / d,
+          dy = (left.y - right.y) / d;
+        l.x += scale * dx;
+        l.y += scale * dy;
+        r.x -= scale * dx;
+        r.y -= scale * dy;
+      }
+      l.radius += error * insideArcLength(left.radius, right.radius, d);
+      r.radius += error * insideArcLength(right.radius, left.radius, d);
+    } else {
+      index = index ?? createCircleIndex(Object.values(sets));
+      const { overlap: o, stats } = intersectionArea(
+        circles as Circle[],
+        index
+      );
+      overlap = o;
+
+      const scale = 2 * weight * (overlap - area.size);
+      if (scale !== 0) {
+        for (const arc of stats.arcs) {
+          // arcs run from p2 to p1 with increasing angle
+          const index = circles.indexOf(arc.circle as Circle);
+          if (index === -1) continue;
+          const g = gradient[area.sets[index]!]!,
+            c = arc.circle;
+          g.x += scale * (arc.p1.y - arc.p2.y);
+          g.y -= scale * (arc.p1.x - arc.p2.x);
+
+          var angle =
+            Math.atan2(arc.p1.y - c.y, arc.p1.x - c.x) -
+            Math.atan2(arc.p2.y - c.y, arc.p2.x - c.x);
+          if (stats.arcs.length === 1) {
+            angle = 2 * Math.PI;
+          } else if (angle < 0) {
+            angle += 2 * Math.PI;
+          }
+          g.radius += scale * c.radius * angle;
+        }
+      }
+    }
+
+    loss += weight * (overlap - area.size) * (overlap - area.size);
+  }
+
+  return { loss, gradient };
+}
+
+/** length of the boundary of circle 1 that is inside circle 2, which is how
+fast their overlap grows with r1 */
+function insideArcLength(r1: number, r2: number, d: number) {
+  if (d >= r1 + r2) {
+    return 0;
+  }
+  if (d <= Math.abs(r1 - r2)) {
+    return r1 <= r2 ? 2 * Math.PI * r1 : 0;
+  }
+
+  var a = (r1 * r1 - r2 * r2 + d * d) / (2 * d);
+  return 2 * r1 * Math.acos(Math.min(Math.max(a / r1, -1), 1));
+}
@@ -1,5 +1,21 @@
 export * from "./layout";
 export * from "./circle-intersection";
+export * from "./ellipse-intersection";
 export * from "./diagram";
-
-
+export * from "./areas";
+export * from "./diagnostics";
+export * from "./svg";
+export * from "./canvas";
+export * from "./transition";
+export * from "./constraints";
+export * from "./gradient";
+export * from "./search";
+export * from "./async";
+export * from "./progress";
+export * from "./labels";
+export * from "./polylabel";
+export * from "./regions";
+export * from "./estimate";
+export * from "./loss";
+export * from "./scalable";
+export * from "./packing";
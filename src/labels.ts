@@ -0,0 +1,291 @@
+import type { Area, Circle, CircleRecord } from "./layout";
+import type { TextCenterRecord } from "./diagram";
+
+import { computeTextCentres, regionCircles, shapeMargin } from "./diagram";
+import { isEllipse, getBoundingBox } from "./layout";
+
+/** Measures a label's text, e.g. with canvas measureText or svg getBBox */
+export type TextMeasure = (
+  text: string,
+  kind: "set" | "size"
+) => { width: number; height: number };
+
+export type LabelOptions = {
+  measure: TextMeasure;
+  /** text of the size labels of intersections, defaults to the size */
+  formatSize?: (size: number) => string;
+  /** space kept clear around each label, default 2 */
+  padding?: number;
+  /** box the labels placed outside the circles should stay in, usually the
+   * width and height of the diagram */
+  bounds?: { width: number; height: number };
+};
+
+/** Where a label goes. Set labels name a set, size labels give the size of
+an intersection */
+export type Label = {
+  sets: (string | number)[];
+  text: string;
+  kind: "set" | "size";
+  /** centre of the label */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** whether the label fits inside its own region */
+  inside: boolean;
+  /** line from inside the region to the label, for labels placed outside
+   * the circles */
+  leader?: { x1: number; y1: number; x2: number; y2: number };
+};
+
+type Box = { x0: number; y0: number; x1: number; y1: number };
+
+/** a set along with its bounding box, to rule it out cheaply */
+type Outline = { shape: Circle; box: Box };
+
+/** Places a label for every region, keeping labels from overlapping each
+other and the edges of the circles. Labels that don't fit in their region
+are moved outside all of the circles and joined to it by a leader line.
+Regions that aren't on screen get no label, and neither do regions whose
+label has nowhere left to go */
+export function layoutLabels(
+  circles: CircleRecord,
+  areas: Area[],
+  { measure, formatSize = String, padding = 2, bounds }: LabelOptions,
+  centres: TextCenterRecord = computeTextCentres(circles, areas)
+) {
+  const outlines = Object.values(circles).map((shape) => {
+    const { xRange, yRange } = getBoundingBox([shape]);
+    return {
+      shape,
+      box: { x0: xRange.min, y0: yRange.min, x1: xRange.max, y1: yRange.max },
+    };
+  });
+  var placed: Box[] = [],
+    ret: Label[] = [];
+
+  // set names get the first pick of the room outside the circles
+  const order = areas
+    .map((area, i) => ({ area, i }))
+    .sort(
+      (a, b) =>
+        Number(a.area.sets.length > 1) - Number(b.area.sets.length > 1) ||
+        a.i - b.i
+    );
+
+  for (const { area } of order) {
+    const centre = centres[area.sets.join(",")];
+    if (!centre || centre.disjoint) continue;
+
+    const kind = area.sets.length === 1 ? "set" : "size";
+    const text =
+      kind === "set"
+        ? area.label ?? String(area.sets[0])
+        : formatSize(area.size);
+    const { width, height } = measure(text, kind);
+    const free = (box: Box) => placed.every((other) => !boxesOverlap(box, other));
+
+    const { interior, exterior } = regionCircles(circles, area.sets);
+    const w = width + 2 * padding,
+      h = height + 2 * padding;
+    let box = placeInside(
+      centre,
+      w,
+      h,
+      (box) => free(box) && boxInside(box, interior, exterior)
+    );
+    let leader: Label["leader"];
+
+    if (!box) {
+      // staying in bounds gives way before overlapping another label
+      box = placeOutside(
+        centre,
+        w,
+        h,
+        outlines,
+        free,
+        (box) => !bounds || boxInBounds(box, bounds)
+      );
+      if (!box) continue;
+
+      const end = closestPoint(shrink(box, padding), centre);
+      leader = { x1: centre.x, y1: centre.y, x2: end.x, y2: end.y };
+    }
+
+    placed.push(box);
+    ret.push({
+      sets: area.sets,
+      text,
+      kind,
+      x: (box.x0 + box.x1) / 2,
+      y: (box.y0 + box.y1) / 2,
+      width,
+      height,
+      inside: !leader,
+      leader,
+    });
+  }
+  return ret;
+}
+
+/** tries the region's text centre first, then nearby points, nearest first */
+function placeInside(
+  centre: { x: number; y: number },
+  width: number,
+  height: number,
+  accept: (box: Box) => boolean
+) {
+  var offsets: { x: number; y: number }[] = [];
+  for (const dx of [0, 0.25, -0.25, 0.5, -0.5]) {
+    for (const dy of [0, 0.5, -0.5, 1, -1]) {
+      offsets.push({ x: dx * width, y: dy * height });
+    }
+  }
+  offsets.sort((a, b) => Math.hypot(a.x, a.y) - Math.hypot(b.x, b.y));
+
+  for (const offset of offsets) {
+    const box = boxAt(centre.x + offset.x, centre.y + offset.y, width, height);
+    if (accept(box)) return box;
+  }
+  return null;
+}
+
+/** Walks outwards from the anchor in a fan of directions, pointing away from
+the middle of the diagram first, and returns the free spot outside every
+circle that's closest to the anchor. Spots in bounds win over the rest, which
+the same walk keeps track of in case there aren't any */
+function placeOutside(
+  anchor: { x: number; y: number },
+  width: number,
+  height: number,
+  outlines: Outline[],
+  free: (box: Box) => boolean,
+  inBounds: (box: Box) => boolean
+) {
+  const extent = {
+      x0: Math.min(...outlines.map(({ box }) => box.x0)),
+      y0: Math.min(...outlines.map(({ box }) => box.y0)),
+      x1: Math.max(...outlines.map(({ box }) => box.x1)),
+      y1: Math.max(...outlines.map(({ box }) => box.y1)),
+    },
+    middle = { x: (extent.x0 + extent.x1) / 2, y: (extent.y0 + extent.y1) / 2 },
+    span = extent.x1 - extent.x0 + extent.y1 - extent.y0;
+  const clear = (box: Box) =>
+    outlines.every(
+      (outline) => !boxesOverlap(box, outline.box) || boxOutside(box, outline.shape)
+    );
+
+  const away =
+    anchor.x === middle.x && anchor.y === middle.y
+      ? -Math.PI / 2
+      : Math.atan2(anchor.y - middle.y, anchor.x - middle.x);
+  const step = Math.max(Math.min(width, height) / 2, span / 200),
+    limit = 2 * span + width + height;
+
+  var best: Box | null = null,
+    bestDistance = Infinity,
+    fallback: Box | null = null,
+    fallbackDistance = Infinity;
+  for (var k = 0; k < 24; ++k) {
+    const angle = away + (k % 2 ? 1 : -1) * Math.ceil(k / 2) * (Math.PI / 12);
+    const dx = Math.cos(angle),
+      dy = Math.sin(angle);
+    var seenFree = false;
+    for (var d = 0; d <= limit && d < bestDistance; d += step) {
+      const box = boxAt(anchor.x + d * dx, anchor.y + d * dy, width, height);
+      if (!clear(box) || !free(box)) continue;
+
+      const end = closestPoint(box, anchor);
+      const length = Math.hypot(end.x - anchor.x, end.y - anchor.y);
+      if (!seenFree) {
+        seenFree = true;
+        if (length < fallbackDistance) {
+          fallback = box;
+          fallbackDistance = length;
+        }
+      }
+      if (!inBounds(box)) continue;
+
+      if (length < bestDistance) {
+        best = box;
+        bestDistance = length;
+      }
+      break;
+    }
+  }
+  return best ?? fallback;
+}
+
+function boxAt(x: number, y: number, width: number, height: number): Box {
+  return {
+    x0: x - width / 2,
+    y0: y - height / 2,
+    x1: x + width / 2,
+    y1: y + height / 2,
+  };
+}
+
+function shrink(box: Box, by: number): Box {
+  return { x0: box.x0 + by, y0: box.y0 + by, x1: box.x1 - by, y1: box.y1 - by };
+}
+
+function boxesOverlap(a: Box, b: Box) {
+  return a.x0 < b.x1 && b.x0 < a.x1 && a.y0 < b.y1 && b.y0 < a.y1;
+}
+
+function boxInBounds(box: Box, bounds: NonNullable<LabelOptions["bounds"]>) {
+  return (
+    box.x0 >= 0 && box.y0 >= 0 && box.x1 <= bounds.width && box.y1 <= bounds.height
+  );
+}
+
+function closestPoint(box: Box, point: { x: number; y: number }) {
+  return {
+    x: Math.min(Math.max(point.x, box.x0), box.x1),
+    y: Math.min(Math.max(point.y, box.y0), box.y1),
+  };
+}
+
+function corners(box: Box) {
+  return [
+    { x: box.x0, y: box.y0 },
+    { x: box.x1, y: box.y0 },
+    { x: box.x1, y: box.y1 },
+    { x: box.x0, y: box.y1 },
+  ];
+}
+
+/** whether the box is inside every interior set and clear of the exterior
+ones. Sets are convex, so the corners being inside is enough */
+function boxInside(box: Box, interior: Circle[], exterior: Circle[]) {
+  const points = corners(box);
+  return (
+    interior.every((shape) => points.every((p) => shapeMargin(shape, p) >= 0)) &&
+    exterior.every((shape) => boxOutside(box, shape))
+  );
+}
+
+/** whether the box is clear of a set. Exact for circles, ellipses are
+checked at points along the edges of the box */
+function boxOutside(box: Box, shape: Circle) {
+  const closest = closestPoint(box, shape),
+    d = Math.hypot(closest.x - shape.x, closest.y - shape.y);
+  if (!isEllipse(shape)) return d >= shape.radius;
+  if (d >= Math.max(shape.rx, shape.ry)) return true;
+  if (d === 0) return false;
+
+  const samples = 8;
+  for (var i = 0; i < samples; ++i) {
+    const t = i / samples;
+    for (const p of [
+      { x: box.x0 + t * (box.x1 - box.x0), y: box.y0 },
+      { x: box.x1, y: box.y0 + t * (box.y1 - box.y0) },
+      { x: box.x1 - t * (box.x1 - box.x0), y: box.y1 },
+      { x: box.x0, y: box.y1 - t * (box.y1 - box.y0) },
+    ]) {
+      if (shapeMargin(shape, p) > 0) return false;
+    }
+  }
+  return true;
+}
@@ -12,14 +12,43 @@ import {
   intersectionArea,
   circleOverlap,
   circleCircleIntersection,
+  createCircleIndex,
   distance,
+  type CircleIndex,
 } from "./circle-intersection";
+import {
+  ellipseIntersectionArea,
+  ellipseExtents,
+  type EllipseCoordinates,
+} from "./ellipse-intersection";
+import {
+  constrainLayout,
+  constraintPenalty,
+  isConstrained,
+  projectConstraints,
+  type Constraints,
+} from "./constraints";
+import { lossGradient } from "./gradient";
+import { createLossEvaluator } from "./loss";
+import { packRectangles, type PackingOptions } from "./packing";
+import {
+  createProgress,
+  minimize,
+  type Progress,
+  type ProgressCallback,
+} from "./progress";
 
-export type Area = {
+export type Area<T = unknown> = {
   sets: (string | number)[];
   size: number;
   weight?: number;
   label?: string;
+  /** size of the region that is in exactly these sets, when known */
+  exclusiveSize?: number;
+  /** elements in all of these sets, when built from raw membership */
+  elements?: T[];
+  /** elements in exactly these sets, when built from raw membership */
+  exclusiveElements?: T[];
 };
 
 export type CircleRecord = Record<string | number, Circle>;
@@ -32,8 +61,18 @@ export type Circle = {
   radius: number;
   parent?: Circle;
   setid: string;
+  /** area of the set as drawn, when venn() was allowed to change radii */
+  fittedSize?: number;
+  /** semi axes and rotation (radians), only set for sets laid out as ellipses */
+  rx?: number;
+  ry?: number;
+  rotation?: number;
 };
 
+export type Ellipse = Circle & EllipseCoordinates;
+
+export type LayoutName = "greedy" | "MDS" | "best" | "ellipse";
+
 type OverLap = {
   set: string;
   size: number;
@@ -42,7 +81,7 @@ type OverLap = {
 
 export type Params = {
   /** layout algorithm used during computations of the venn diagram */
-  layout?: "greedy" | "MDS" | "best";
+  layout?: LayoutName;
   /** max of number iterations when performing a MSDConstrainedLayout */
   restarts?: number;
   maxIterations?: number;
@@ -51,16 +90,56 @@ export type Params = {
   history?: {
     x: number[];
   }[];
+  /** a previous solution to start the optimisation from, so that small
+   * changes in the data only move the diagram a little. Can be in any
+   * units, e.g. already scaled to pixels */
+  previous?: CircleRecord;
+  /** how strongly sets are held near their previous positions. Moving a set
+   * by its own radius costs stability * size^2, default 0.1 */
+  stability?: number;
+  /** per set constraints on where sets can be placed, see SetConstraint */
+  constraints?: Constraints;
+  /** optimiser used to refine the initial layout. "conjugateGradient" uses
+   * analytic gradients of the loss and scales better to many sets, it isn't
+   * available for ellipses */
+  optimizer?: "nelderMead" | "conjugateGradient";
+  /** also optimise the radius of every set instead of fixing it from the set
+   * size, so that set sizes can give a little to fit intersections better */
+  fitRadii?: boolean;
+  /** weight of the squared set size errors when fitting radii, default 1 */
+  sizeWeight?: number;
+  /** called for every candidate of the initial layout and every iteration
+   * of the refinement, see ProgressCallback */
+  onProgress?: ProgressCallback;
+  /** time budget in milliseconds. Once it runs out, the layout found so far
+   * is returned */
+  maxTimeMs?: number;
+  /** stop refining once this many iterations in a row haven't improved the
+   * loss by more than plateauTolerance. Nelder-Mead often keeps its best
+   * point for a few iterations, so this wants to be around 50 for it */
+  plateauIterations?: number;
+  /** relative improvement of the loss that counts as progress, default 1e-6 */
+  plateauTolerance?: number;
 };
 
-type LayoutFunction = (areas: Area[], params: Params) => CircleRecord;
+type LayoutFunction = (
+  areas: Area[],
+  params: Params,
+  progress?: Progress
+) => CircleRecord;
 
-const layoutFunctionMap = new Map<"greedy" | "MDS" | "best", LayoutFunction>([
+const layoutFunctionMap = new Map<LayoutName, LayoutFunction>([
   ["greedy", greedyLayout],
   ["MDS", constrainedMDSLayout],
   ["best", bestInitialLayout],
+  ["ellipse", ellipseLayout],
 ]);
 
+/** returns whether a set has been laid out as an ellipse */
+export function isEllipse(circle: Circle): circle is Ellipse {
+  return circle.rx !== undefined && circle.ry !== undefined;
+}
+
 /** given a list of set objects, and their corresponding overlaps.
 updates the (x, y, radius) attribute on each set such that their positions
 roughly correspond to the desired overlaps */
@@ -70,58 +149,194 @@ export function venn(areas: Area[], parameters?: Params) {
   parameters.seed = parameters.seed ?? Math.random();
 
   const initialLayout = layoutFunctionMap.get(parameters.layout ?? "best") as LayoutFunction;
-  var loss = lossFunction;
 
   // add in missing pairwise areas as having 0 size
   areas = addMissingAreas(areas);
 
   // initial layout is done greedily
-  var circles = initialLayout(areas, parameters);
+  const progress = createProgress(parameters);
+  var circles = initialLayout(areas, parameters, progress);
+
+  // when warm starting, line the initial layout up with the previous one
+  // and start every set that was already there from where it was
+  var anchors: Record<string, { x: number; y: number }> = {};
+  const stability = parameters.stability ?? 0.1;
+  if (parameters.previous) {
+    anchors = previousPositions(circles, parameters.previous);
+    const aligned = Object.values(circles);
+    alignCircles(aligned, anchors);
+    for (const circle of aligned) {
+      const anchor = anchors[circle.setid];
+      if (anchor) {
+        circle.x = anchor.x;
+        circle.y = anchor.y;
+      }
+    }
+  }
 
-  // transform x/y coordinates to a vector to optimize
+  const constraints = parameters.constraints;
+  if (constraints) {
+    constrainLayout(circles, constraints);
+  }
+
+  // transform x/y coordinates to a vector to optimize. ellipses also get
+  // their log aspect ratio and rotation optimized, keeping their area fixed
   var initial: number[] = [],
     setids: string[] = [];
+  // when fitting radii, each set also gets its log radius scale optimized
+  const ellipses = Object.values(circles).some(isEllipse);
+  const fitRadii = !!parameters.fitRadii;
+  const sizeWeight = parameters.sizeWeight ?? 1;
+  const stride = (ellipses ? 4 : 2) + (fitRadii ? 1 : 0);
   for (const setid of Object.keys(circles)) {
     const circle = circles[setid];
     if (!circle) continue;
 
     initial.push(circle.x);
     initial.push(circle.y);
+    if (ellipses) {
+      initial.push(Math.log((circle.rx ?? circle.radius) / circle.radius));
+      initial.push(circle.rotation ?? 0);
+    }
+    if (fitRadii) {
+      initial.push(0);
+    }
     setids.push(setid);
   }
 
+  function fromVector(values: number[], setid: string, i: number): Circle {
+    const circle = circles[setid] as Circle;
+    const radius = fitRadii
+      ? circle.radius * Math.exp(values[stride * i + stride - 1]!)
+      : circle.radius;
+    const current: Circle = {
+      x: values[stride * i]!,
+      y: values[stride * i + 1]!,
+      radius: radius,
+      setid: setid,
+      size: circle.size,
+      rowid: circle.rowid,
+    };
+    if (fitRadii) {
+      current.fittedSize = Math.PI * radius * radius;
+    }
+    if (ellipses) {
+      const aspect = Math.exp(values[stride * i + 2]!);
+      current.rx = radius * aspect;
+      current.ry = radius / aspect;
+      current.rotation = values[stride * i + 3]!;
+    }
+    return current;
+  }
+
+  // with free radii, the set sizes themselves become part of the loss
+  function sizeLoss(current: CircleRecord) {
+    var l = 0;
+    if (!fitRadii) return l;
+    for (const setid of setids) {
+      const circle = current[setid]!;
+      const error = circle.fittedSize! - (circle.size ?? 0);
+      l += sizeWeight * error * error;
+    }
+    return l;
+  }
+
+  function toRecord(values: number[]) {
+    var current: CircleRecord = {};
+    for (var i = 0; i < setids.length; ++i) {
+      var setid = setids[i] as string;
+      current[setid] = fromVector(values, setid, i);
+    }
+    return current;
+  }
+
+  // extra loss from moving away from a previous solution / breaking constraints
+  const penalised = Object.keys(anchors).length > 0 || !!constraints;
+  function penalty(current: CircleRecord) {
+    var l = 0;
+    for (const setid in anchors) {
+      const circle = current[setid]!,
+        anchor = anchors[setid]!,
+        moved = (circle.size ?? 0) * distance(circle, anchor) / circle.radius;
+      l += stability * moved * moved;
+    }
+    if (constraints) {
+      l += constraintPenalty(current, constraints);
+    }
+    return l;
+  }
+
   // optimize initial layout from our loss function
   var totalFunctionCalls = 0;
-  var solution = nelderMead(
-    function (values) {
-      totalFunctionCalls += 1;
-      var current: CircleRecord = {};
-      for (var i = 0; i < setids.length; ++i) {
-        var setid = setids[i] as string;
-        const circle = circles[setid] as Circle;
-        current[setid] = {
-          x: values[2 * i]!,
-          y: values[2 * i + 1]!,
-          radius: circle.radius,
-          setid: setid,
-          size: circle.size,
-          rowid: circle.rowid,
-        };
-      }
-      const l = loss(current, areas);
-      return l;
-    },
-    initial,
-    parameters
-  );
+  var solution;
+  if (parameters.optimizer === "conjugateGradient" && !ellipses) {
+    solution = minimize(
+      conjugateGradient,
+      function (values: number[], fxprime: number[]) {
+        totalFunctionCalls += 1;
+        const current = toRecord(values);
+        const { loss: l, gradient } = lossGradient(current, areas);
+        for (var i = 0; i < setids.length; ++i) {
+          const g = gradient[setids[i]!]!;
+          fxprime[stride * i] = g.x;
+          fxprime[stride * i + 1] = g.y;
+          if (fitRadii) {
+            // chain rule through radius = r0 * exp(s), plus the size term
+            const circle = current[setids[i]!]!;
+            const error = circle.fittedSize! - (circle.size ?? 0);
+            fxprime[stride * i + stride - 1] =
+              circle.radius *
+              (g.radius + sizeWeight * 2 * error * 2 * Math.PI * circle.radius);
+          }
+        }
+        if (!penalised) return l + sizeLoss(current);
+
+        // penalties are cheap next to the areas, differentiate numerically
+        const h = 1e-7;
+        for (var j = 0; j < values.length; ++j) {
+          const step = h * Math.max(1, Math.abs(values[j]!));
+          const up = values.slice(),
+            down = values.slice();
+          up[j]! += step;
+          down[j]! -= step;
+          fxprime[j]! +=
+            (penalty(toRecord(up)) - penalty(toRecord(down))) / (2 * step);
+        }
+        return l + sizeLoss(current) + penalty(current);
+      },
+      initial,
+      parameters,
+      progress,
+      toRecord
+    );
+  } else {
+    // steps often leave most sets where they were, only work out the
+    // overlaps of those that moved
+    const evaluator = createLossEvaluator(areas);
+    solution = minimize(
+      nelderMead,
+      function (values: number[]) {
+        totalFunctionCalls += 1;
+        const current = toRecord(values);
+        return evaluator.loss(current) + sizeLoss(current) + penalty(current);
+      },
+      initial,
+      parameters,
+      progress,
+      toRecord
+    );
+  }
 
   // transform solution vector back to x/y points
   var positions = solution.x;
   for (var i = 0; i < setids.length; ++i) {
     const setid = setids[i] as string;
-    const circle = circles[setid];
-    circle!.x = positions[2 * i]!;
-    circle!.y = positions[2 * i + 1]!;
+    circles[setid] = fromVector(positions, setid, i);
+  }
+
+  // the penalty only gets constraints approximately right, finish them off
+  if (constraints) {
+    projectConstraints(circles, constraints);
   }
 
   return circles;
@@ -285,16 +500,20 @@ function constrainedMDSGradient(
 }
 
 /// takes the best working variant of either constrained MDS or greedy
-export function bestInitialLayout(areas: Area[], params: Params) {
-  var initial = greedyLayout(areas, params);
+export function bestInitialLayout(
+  areas: Area[],
+  params: Params,
+  progress = createProgress(params)
+) {
+  var initial = greedyLayout(areas, params, progress);
   var loss = lossFunction;
 
   // greedylayout is sufficient for all 2/3 circle cases. try out
   // constrained MDS for higher order problems, take its output
   // if it outperforms. (greedy is aesthetically better on 2/3 circles
   // since it axis aligns)
-  if (areas.length >= 8) {
-    var constrained = constrainedMDSLayout(areas, params),
+  if (areas.length >= 8 && !progress.expired()) {
+    var constrained = constrainedMDSLayout(areas, params, progress),
       constrainedLoss = loss(constrained, areas),
       greedyLoss = loss(initial, areas);
 
@@ -305,8 +524,38 @@ export function bestInitialLayout(areas: Area[], params: Params) {
   return initial;
 }
 
+/// how stretched the ellipses of ellipseLayout start out
+var INITIAL_ASPECT = 1.5;
+
+/// starts from the best circular layout, with every set turned into an
+/// ellipse that venn() is then free to stretch and rotate. The ellipses
+/// start out stretched towards the middle of the layout: while they are
+/// round, turning them changes nothing and the optimiser doesn't find its
+/// way off circles
+export function ellipseLayout(
+  areas: Area[],
+  params: Params,
+  progress = createProgress(params)
+) {
+  var circles = bestInitialLayout(areas, params, progress),
+    setids = Object.keys(circles),
+    cx = 0,
+    cy = 0;
+  for (const setid of setids) {
+    cx += circles[setid]!.x / setids.length;
+    cy += circles[setid]!.y / setids.length;
+  }
+  for (const setid of setids) {
+    const circle = circles[setid] as Circle;
+    circle.rx = circle.radius * INITIAL_ASPECT;
+    circle.ry = circle.radius / INITIAL_ASPECT;
+    circle.rotation = Math.atan2(circle.y - cy, circle.x - cx);
+  }
+  return circles;
+}
+
 // Simple seeded random number generator (Mulberry32)
-function createRandomGenerator(seed: number = 1) {
+export function createRandomGenerator(seed: number = 1) {
   return () => {
     seed = (seed + 0x6d2b79f5) | 0;
     let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
@@ -316,7 +565,11 @@ function createRandomGenerator(seed: number = 1) {
 }
 
 /// use the constrained MDS variant to generate an initial layout
-export function constrainedMDSLayout(areas: Area[], params: Params) {
+export function constrainedMDSLayout(
+  areas: Area[],
+  params: Params,
+  progress = createProgress(params)
+) {
   var restarts = params.restarts || 10;
 
   // Create a deterministic random generator if seed is provided
@@ -352,40 +605,52 @@ export function constrainedMDSLayout(areas: Area[], params: Params) {
 
   const getRand = createRandomGenerator(seed);
 
+  // translate rows back to (x,y,radius) coordinates
+  function toCircles(positions: number[]) {
+    var circles: CircleRecord = {};
+    for (var i = 0; i < sets.length; ++i) {
+      var set = sets[i];
+      const setName = set?.sets[0];
+
+      if (set === undefined || setName === undefined) continue;
+
+      circles[setName] = {
+        x: positions[2 * i]! * norm,
+        y: positions[2 * i + 1]! * norm,
+        radius: Math.sqrt(set.size / Math.PI),
+        setid: setName as string,
+        size: set.size,
+        rowid: Object.keys(circles).length,
+      };
+    }
+    return circles;
+  }
+
   var best, current;
   for (i = 0; i < restarts; ++i) {
     var initial = zeros(distances.length * 2).map(() => getRand());
 
-    current = conjugateGradient(
-      (x, fxprime) =>
+    current = minimize(
+      conjugateGradient,
+      (x: number[], fxprime: number[]) =>
         constrainedMDSGradient(x, fxprime, distances, constraints),
       initial,
-      params
+      params,
+      progress
     );
 
     if (!best || current.fx < best.fx) {
       best = current;
     }
-  }
-  var positions = best?.x;
 
-  // translate rows back to (x,y,radius) coordinates
-  var circles: CircleRecord = {};
-  for (i = 0; i < sets.length; ++i) {
-    var set = sets[i];
-    const setName = set?.sets[0];
-
-    if (set === undefined || setName === undefined) continue;
-
-    circles[setName] = {
-      x: positions![2 * i]! * norm,
-      y: positions![2 * i + 1]! * norm,
-      radius: Math.sqrt(set.size / Math.PI),
-      setid: setName as string,
-      size: set.size,
-      rowid: Object.keys(circles).length,
-    };
+    if (progress.reporting) {
+      const restart = toCircles(current.x);
+      progress.report(lossFunction(restart, areas), restart);
+    }
+    // keep the best restart so far once out of time
+    if (progress.expired()) break;
   }
+  var circles = toCircles(best!.x);
 
   if (params.history) {
     for (const step of params.history) {
@@ -398,8 +663,13 @@ export function constrainedMDSLayout(areas: Area[], params: Params) {
 /** Lays out a Venn diagram greedily, going from most overlapped sets to
 least overlapped, attempting to position each new set such that the
 overlapping areas to already positioned sets are basically right */
-export function greedyLayout(areas: Area[], _params?: Params) {
-  var loss = lossFunction;
+export function greedyLayout(
+  areas: Area[],
+  _params?: Params,
+  progress?: Progress
+) {
+  var loss = lossFunction,
+    allAreas = areas;
   // define a circle for each set
   var circles: CircleRecord = {},
     setOverlaps: Record<string, OverLap[]> = {},
@@ -422,6 +692,8 @@ export function greedyLayout(areas: Area[], _params?: Params) {
   areas = areas.filter(function (a) {
     return a.sets.length == 2;
   });
+  // candidate positions only move one set
+  const evaluator = createLossEvaluator(areas);
 
   // map each set to a list of all the other sets that overlap it
   for (i = 0; i < areas.length; ++i) {
@@ -550,7 +822,7 @@ export function greedyLayout(areas: Area[], _params?: Params) {
     for (j = 0; j < points.length; ++j) {
       circles[setIndex!]!.x = points[j]!.x;
       circles[setIndex!]!.y = points[j]!.y;
-      var localLoss = loss(circles, areas);
+      var localLoss = evaluator.loss(circles);
       if (localLoss < bestLoss) {
         bestLoss = localLoss;
         bestPoint = points[j];
@@ -560,6 +832,12 @@ export function greedyLayout(areas: Area[], _params?: Params) {
     positionSet(bestPoint!, setIndex!);
   }
 
+  if (progress?.reporting) {
+    // venn() keeps moving these circles, hand out copies
+    const copy: CircleRecord = {};
+    for (const setid in circles) copy[setid] = { ...circles[setid]! };
+    progress.report(loss(circles, allAreas), copy);
+  }
   return circles;
 }
 
@@ -567,7 +845,8 @@ export function greedyLayout(areas: Area[], _params?: Params) {
 the distance from the actual overlaps to the desired overlaps. Note that
 this method ignores overlaps of more than 2 circles */
 export function lossFunction(sets: CircleRecord, overlaps: Area[]) {
-  var output = 0;
+  var output = 0,
+    index: CircleIndex | undefined;
 
   function getCircles(indices: (string | number)[]) {
     return indices.map(function (i) {
@@ -580,7 +859,12 @@ export function lossFunction(sets: CircleRecord, overlaps: Area[]) {
       overlap: number;
     if (!area || area.sets.length === 1) continue;
 
-    if (area.sets.length === 2) {
+    if (area.sets.some((set) => sets[set] && isEllipse(sets[set]))) {
+      const shapes = getCircles(area.sets);
+      if (shapes.some((shape) => shape === undefined)) continue;
+
+      overlap = ellipseIntersectionArea(shapes as Ellipse[]).overlap;
+    } else if (area.sets.length === 2) {
       var left = sets[area.sets[0]!],
         right = sets[area.sets[1]!];
 
@@ -592,7 +876,10 @@ export function lossFunction(sets: CircleRecord, overlaps: Area[]) {
         distance(left!, right!)
       );
     } else {
-      overlap = intersectionArea(getCircles(area.sets) as Circle[]).overlap;
+      // regions share the points where their circles cross
+      index = index ?? createCircleIndex(Object.values(sets));
+      overlap = intersectionArea(getCircles(area.sets) as Circle[], index)
+        .overlap;
     }
 
     var weight = area.weight ? area.weight : 1.0;
@@ -602,6 +889,68 @@ export function lossFunction(sets: CircleRecord, overlaps: Area[]) {
   return output;
 }
 
+/** Returns the area shared by all of the given sets, whether they are laid
+out as circles or as ellipses */
+export function overlapArea(circles: Circle[]) {
+  if (circles.some(isEllipse)) {
+    return ellipseIntersectionArea(circles as Ellipse[]).overlap;
+  }
+  if (circles.length === 1) {
+    return Math.PI * circles[0]!.radius * circles[0]!.radius;
+  }
+  if (circles.length === 2) {
+    const [left, right] = circles as [Circle, Circle];
+    return circleOverlap(left.radius, right.radius, distance(left, right));
+  }
+  return intersectionArea(circles).overlap;
+}
+
+/** rotates circles in place by 'angle' around the origin */
+function rotateCircles(circles: Circle[], angle: number) {
+  var c = Math.cos(angle),
+    s = Math.sin(angle);
+  for (const circle of circles) {
+    const x = circle.x,
+      y = circle.y;
+    circle.x = c * x - s * y;
+    circle.y = s * x + c * y;
+    if (circle.rotation !== undefined) {
+      circle.rotation += angle;
+    }
+  }
+}
+
+/** Turns an orientated cluster to whichever of a few dozen angles fills the
+most of a viewport of 'aspectRatio'. With 'smallest' the angles with the
+smallest bounding box come first, and the viewport only decides between
+those. Stays as it is unless turning helps */
+function turnToFit(cluster: Circle[], aspectRatio: number, smallest: boolean) {
+  function measure(circles: Circle[]) {
+    const { xRange, yRange } = getBoundingBox(circles);
+    return {
+      area: smallest ? (xRange.max - xRange.min) * (yRange.max - yRange.min) : 0,
+      fill: boxFill(circles, aspectRatio),
+    };
+  }
+
+  var best = 0,
+    bestMeasure = measure(cluster);
+  for (var k = 1; k < 36; ++k) {
+    const turned = cluster.map((circle) => ({ ...circle }));
+    rotateCircles(turned, (k * Math.PI) / 36);
+    const current = measure(turned);
+    if (
+      current.area < bestMeasure.area * (1 - 1e-9) ||
+      (current.area <= bestMeasure.area * (1 + 1e-9) &&
+        current.fill > bestMeasure.fill + 1e-9)
+    ) {
+      best = k;
+      bestMeasure = current;
+    }
+  }
+  if (best) rotateCircles(cluster, (best * Math.PI) / 36);
+}
+
 // orientates a bunch of circles to point in orientation
 function orientateCircles(
   circles: Circle[],
@@ -645,21 +994,10 @@ function orientateCircles(
   // rotate circles so that second largest is at an angle of 'orientation'
   // from largest
   if (circles.length > 1) {
-    var rotation =
-        Math.atan2(circles[1]!.x, circles[1]!.y) - (orientation ?? 0),
-      c = Math.cos(rotation),
-      s = Math.sin(rotation),
-      x: number,
-      y: number;
-
-    for (i = 0; i < circles.length; ++i) {
-      const circle = circles[i];
-      if (!circle) continue;
-      x = circle.x;
-      y = circle.y;
-      circle.x = c * x - s * y;
-      circle.y = s * x + c * y;
-    }
+    rotateCircles(
+      circles,
+      Math.atan2(circles[1]!.x, circles[1]!.y) - (orientation ?? 0)
+    );
   }
 
   // mirror solution if third solution is above plane specified by
@@ -684,6 +1022,9 @@ function orientateCircles(
         var d = (circle.x + slope * circle.y) / (1 + slope * slope);
         circle.x = 2 * d - circle.x;
         circle.y = 2 * d * slope - circle.y;
+        if (circle.rotation !== undefined) {
+          circle.rotation = 2 * Math.atan(slope) - circle.rotation;
+        }
       }
     }
   }
@@ -721,31 +1062,31 @@ export function disjointCluster(circles: Circle[]) {
       const c2 = circles[j];
       if (!c1 || !c2) continue;
 
-      var maxDistance = c1.radius + c2.radius;
+      var maxDistance = boundingRadius(c1) + boundingRadius(c2);
       if (distance(c1, c2) + 1e-10 < maxDistance) {
         union(c2, c1);
       }
     }
   }
 
-  // find all the disjoint clusters and group them together
-  var disjointClusters: Record<string, Circle[]> = {},
-    setid: string | number;
+  // find all the disjoint clusters and group them together, keyed on
+  // the root circle so that circles without a setid are still grouped
+  var disjointClusters = new Map<Circle, Circle[]>();
   for (i = 0; i < circles.length; ++i) {
     const circle = circles[i];
 
     if (!circle) continue;
 
-    const parentCircle = find(circles[i]);
-    const setid = parentCircle?.parent?.setid;
+    const root = find(circle);
 
-    if (!setid) continue;
+    if (!root) continue;
 
-    if (!(setid in disjointClusters)) {
-      disjointClusters[setid] = [];
+    const cluster = disjointClusters.get(root);
+    if (cluster) {
+      cluster.push(circle);
+    } else {
+      disjointClusters.set(root, [circle]);
     }
-
-    if (disjointClusters[setid]) disjointClusters[setid].push(circle);
   }
 
   // cleanup bookkeeping
@@ -754,28 +1095,33 @@ export function disjointCluster(circles: Circle[]) {
   });
 
   // return in more usable form
-  var ret = [];
-  for (setid in disjointClusters) {
-    const cluster = disjointClusters[setid];
-    if (cluster) {
-      ret.push(cluster);
-    }
-  }
-  return ret;
+  return Array.from(disjointClusters.values());
 }
 
-function getBoundingBox(circles: Circle[]) {
+function boundingRadius(circle: Circle) {
+  return isEllipse(circle) ? Math.max(circle.rx, circle.ry) : circle.radius;
+}
+
+/** half width / half height of a set */
+function getExtents(circle: Circle) {
+  return isEllipse(circle)
+    ? ellipseExtents(circle)
+    : { x: circle.radius, y: circle.radius };
+}
+
+/** axis aligned bounds of a list of sets */
+export function getBoundingBox(circles: Circle[]) {
   var minMax = function (d: "x" | "y") {
     var hi = Math.max.apply(
         null,
         circles.map(function (c) {
-          return c[d] + c.radius;
+          return c[d] + getExtents(c)[d];
         })
       ),
       lo = Math.min.apply(
         null,
         circles.map(function (c) {
-          return c[d] - c.radius;
+          return c[d] - getExtents(c)[d];
         })
       );
     return { max: hi, min: lo };
@@ -795,10 +1141,105 @@ type Bounds = {
   };
 };
 
+/** Returns the positions of a previous solution for every set also in
+'circles', rescaled to the units of 'circles' */
+function previousPositions(circles: CircleRecord, previous: CircleRecord) {
+  var current = 0,
+    before = 0;
+  for (const setid in circles) {
+    const circle = previous[setid];
+    if (!circle || !circle.radius) continue;
+    current += circles[setid]!.radius * circles[setid]!.radius;
+    before += circle.radius * circle.radius;
+  }
+
+  var ret: Record<string, { x: number; y: number }> = {};
+  if (!before) return ret;
+
+  var scaling = Math.sqrt(current / before);
+  for (const setid in circles) {
+    const circle = previous[setid];
+    if (!circle || !circle.radius) continue;
+    ret[setid] = { x: circle.x * scaling, y: circle.y * scaling };
+  }
+  return ret;
+}
+
+/** Rotates (and if needed mirrors) circles in place so that they best line
+up with the target positions, then moves them onto the targets */
+function alignCircles(
+  circles: Circle[],
+  targets: Record<string, { x: number; y: number }>
+) {
+  var matched = circles.filter((circle) => circle.setid in targets);
+  if (matched.length === 0) return;
+
+  var cx = 0,
+    cy = 0,
+    tx = 0,
+    ty = 0;
+  for (const circle of matched) {
+    cx += circle.x / matched.length;
+    cy += circle.y / matched.length;
+    tx += targets[circle.setid]!.x / matched.length;
+    ty += targets[circle.setid]!.y / matched.length;
+  }
+
+  // best rotation in 2D (kabsch), with and without mirroring the y axis
+  function fit(mirror: number) {
+    var dot = 0,
+      cross = 0;
+    for (const circle of matched) {
+      const x = circle.x - cx,
+        y = mirror * (circle.y - cy),
+        target = targets[circle.setid]!,
+        u = target.x - tx,
+        v = target.y - ty;
+      dot += x * u + y * v;
+      cross += x * v - y * u;
+    }
+    return { angle: Math.atan2(cross, dot), score: Math.hypot(dot, cross) };
+  }
+
+  var plain = fit(1),
+    mirrored = fit(-1),
+    mirror = mirrored.score > plain.score + 1e-10 ? -1 : 1,
+    angle = mirror === 1 ? plain.angle : mirrored.angle,
+    c = Math.cos(angle),
+    s = Math.sin(angle);
+
+  for (const circle of circles) {
+    const x = circle.x - cx,
+      y = mirror * (circle.y - cy);
+    circle.x = tx + c * x - s * y;
+    circle.y = ty + s * x + c * y;
+    if (circle.rotation !== undefined) {
+      circle.rotation = mirror * circle.rotation + angle;
+    }
+  }
+}
+
+/** How normalizeSolution places disjoint clusters next to each other */
+export type ClusterPacking = PackingOptions & {
+  /** "skyline" (default) packs the bounding boxes of the clusters into a box
+   * of aspectRatio with packRectangles. "grid" places them three at a time
+   * to the right of, below and diagonally from what's already there */
+  method?: "skyline" | "grid";
+  /** turn clusters to fill a viewport of aspectRatio rather than pointing
+   * them in 'orientation'. A diagram that is one cluster is turned to fill
+   * as much of the viewport as it can, otherwise each cluster is turned to
+   * its smallest bounding box, lying whichever way suits aspectRatio, before
+   * they are packed */
+  fitAspectRatio?: boolean;
+};
+
 export function normalizeSolution(
   solution: Record<string | number, Circle>,
   orientation?: number,
-  orientationOrder?: (a: Circle, b: Circle) => number
+  orientationOrder?: (a: Circle, b: Circle) => number,
+  previousSolution?: CircleRecord,
+  constraints?: Constraints,
+  packing: ClusterPacking = {}
 ) {
   if (orientation === null) {
     orientation = Math.PI / 2;
@@ -815,6 +1256,17 @@ export function normalizeSolution(
     circles.push({ ...previous, setid: setid });
   }
 
+  // keep the orientation of a previous solution rather than re-orientating.
+  // constrained layouts already have a fixed frame of reference
+  if (previousSolution && !isConstrained(circles, constraints)) {
+    alignCircles(circles, previousPositions(solution, previousSolution));
+    var aligned: CircleRecord = {};
+    for (const circle of circles) {
+      aligned[circle.setid] = circle;
+    }
+    return aligned;
+  }
+
   // get all the disjoint clusters
   var clusters: (Circle[] & { size?: number; bounds?: Bounds })[] =
     disjointCluster(circles);
@@ -828,7 +1280,13 @@ export function normalizeSolution(
 
     if (!cluster) continue;
 
-    orientateCircles(cluster, orientation, orientationOrder);
+    // clusters with constrained sets stay exactly where they were put
+    if (!isConstrained(cluster, constraints)) {
+      orientateCircles(cluster, orientation, orientationOrder);
+      if (packing.fitAspectRatio) {
+        turnToFit(cluster, packing.aspectRatio ?? 1, clusters.length > 1);
+      }
+    }
 
     var bounds = getBoundingBox(cluster);
     cluster.size =
@@ -838,17 +1296,65 @@ export function normalizeSolution(
   }
 
   clusters.sort(function (a, b) {
+    const constrained =
+      Number(isConstrained(b, constraints)) -
+      Number(isConstrained(a, constraints));
+    if (constrained) return constrained;
     if (!a.size || !b.size) return 0;
     return b.size - a.size;
   });
 
-  // orientate the largest at 0,0, and get the bounds
+  // orientate the largest at 0,0, and get the bounds. when there are
+  // constrained clusters, the others get placed around all of them instead
   //circles = clusters[0];
   let largestCluster = clusters[0]!;
   var returnBounds = largestCluster.bounds!;
+  var fixedClusters = clusters.filter((cluster) =>
+    isConstrained(cluster, constraints)
+  );
+  if (fixedClusters.length > 1) {
+    returnBounds = getBoundingBox(fixedClusters.flat());
+  }
 
   var spacing = (returnBounds.xRange.max - returnBounds.xRange.min) / 50;
 
+  if (packing.method !== "grid") {
+    // fixed clusters stay where they are, with the others packed to the
+    // right of them. otherwise the largest cluster stays where it is
+    const free = clusters.slice(fixedClusters.length);
+    const packed = packRectangles(
+      free.map(({ bounds }) => ({
+        width: bounds!.xRange.max - bounds!.xRange.min,
+        height: bounds!.yRange.max - bounds!.yRange.min,
+      })),
+      { spacing, ...packing }
+    );
+    var origin = fixedClusters.length
+      ? {
+          x: returnBounds.xRange.max + spacing,
+          y: returnBounds.yRange.min,
+        }
+      : {
+          x: largestCluster.bounds!.xRange.min - packed.rectangles[0]!.x,
+          y: largestCluster.bounds!.yRange.min - packed.rectangles[0]!.y,
+        };
+
+    free.forEach((cluster, k) => {
+      const bounds = cluster.bounds!,
+        position = packed.rectangles[k]!;
+      for (const circle of cluster) {
+        circle.x += origin.x + position.x - bounds.xRange.min;
+        circle.y += origin.y + position.y - bounds.yRange.min;
+      }
+    });
+
+    var packedSolution: CircleRecord = {};
+    for (const circle of circles) {
+      packedSolution[circle.setid] = circle;
+    }
+    return packedSolution;
+  }
+
   function addCluster(
     cluster: (Circle[] & { size?: number; bounds?: Bounds }) | undefined,
     right: boolean,
@@ -892,7 +1398,7 @@ export function normalizeSolution(
     }
   }
 
-  var index = 1;
+  var index = Math.max(fixedClusters.length, 1);
   while (index < clusters.length) {
     addCluster(clusters[index], true, false);
     addCluster(clusters[index + 1], false, true);
@@ -958,6 +1464,9 @@ export function scaleSolution(
     scaled[id] = {
       ...circle,
       radius: scaling * circle.radius,
+      ...(isEllipse(circle)
+        ? { rx: scaling * circle.rx, ry: scaling * circle.ry }
+        : {}),
       x: padding + xOffset + (circle.x - xRange.min) * scaling,
       y: padding + yOffset + (circle.y - yRange.min) * scaling,
     };
@@ -965,3 +1474,17 @@ export function scaleSolution(
 
   return scaled;
 }
+
+/** How much of a viewport of 'aspectRatio' (width / height) the bounding box
+of the solution fills once scaleSolution has fitted it in, between 0 and 1 */
+export function viewportFill(solution: CircleRecord, aspectRatio: number) {
+  return boxFill(Object.values(solution) as Circle[], aspectRatio);
+}
+
+function boxFill(circles: Circle[], aspectRatio: number) {
+  const { xRange, yRange } = getBoundingBox(circles);
+  const width = xRange.max - xRange.min,
+    height = yRange.max - yRange.min;
+  if (!(width > 0 && height > 0)) return 0;
+  return Math.min(width / (height * aspectRatio), (height * aspectRatio) / width);
+}
@@ -0,0 +1,187 @@
+import type { Area, Circle, CircleRecord, Ellipse } from "./layout";
+
+import {
+  circleOverlap,
+  createCircleIndex,
+  distance,
+  intersectionArea,
+  type CircleIndex,
+} from "./circle-intersection";
+import { ellipseIntersectionArea } from "./ellipse-intersection";
+import { isEllipse } from "./layout";
+
+/** how many past parameters of a set, and overlaps of an area, are kept */
+const RECENT = 4;
+
+/** the parameters of a set's circle that its overlaps depend on, numbered
+so that overlaps can be cached on them */
+type Snapshot = {
+  version: number;
+  x: number;
+  y: number;
+  radius: number;
+  rx?: number;
+  ry?: number;
+  rotation?: number;
+};
+
+type Term = {
+  sets: string[];
+  size: number;
+  weight: number;
+  /** undefined while one of the sets has no circle */
+  overlap?: number;
+  /** overlaps worked out recently, with the versions of the sets */
+  recent: { versions: number[]; overlap: number }[];
+};
+
+function sameParameters(circle: Circle, snapshot: Snapshot) {
+  return (
+    circle.x === snapshot.x &&
+    circle.y === snapshot.y &&
+    circle.radius === snapshot.radius &&
+    circle.rx === snapshot.rx &&
+    circle.ry === snapshot.ry &&
+    circle.rotation === snapshot.rotation
+  );
+}
+
+/** Evaluates lossFunction over and over for the same areas as the circles
+move, the way an optimiser does. Every call compares the circles with the
+ones it saw last and only works out again the overlaps of areas that have a
+set that moved. Overlaps of more than two circles, and of ellipses, are also
+cached on the recent parameters of their circles, so moving a set back to
+where it just was doesn't cost anything either. Two circles are quicker to
+work out again than to look up. Gives the same loss as lossFunction */
+export function createLossEvaluator(overlaps: Area[]) {
+  var terms: Term[] = [],
+    termsBySet = new Map<string, number[]>();
+  for (const area of overlaps) {
+    if (area.sets.length === 1) continue;
+    const sets = area.sets.map(String);
+    for (const set of sets) {
+      if (!termsBySet.has(set)) termsBySet.set(set, []);
+      termsBySet.get(set)!.push(terms.length);
+    }
+    terms.push({
+      sets,
+      size: area.size,
+      weight: area.weight ? area.weight : 1.0,
+      recent: [],
+    });
+  }
+
+  // the parameters each set was last seen with first, then older ones
+  var history = new Map<string, Snapshot[]>(),
+    versions = new Map<string, number>(),
+    nextVersion = 0,
+    dirty = new Uint8Array(terms.length),
+    computed = 0;
+
+  /** the version of a set's parameters, -1 when it has no circle */
+  function version(set: string, circle: Circle | undefined) {
+    if (circle === undefined) return -1;
+    var snapshots = history.get(set);
+    if (snapshots === undefined) history.set(set, (snapshots = []));
+    for (var k = 0; k < snapshots.length; ++k) {
+      const snapshot = snapshots[k]!;
+      if (sameParameters(circle, snapshot)) {
+        if (k > 0) snapshots.unshift(snapshots.splice(k, 1)[0]!);
+        return snapshot.version;
+      }
+    }
+    snapshots.unshift({
+      version: nextVersion,
+      x: circle.x,
+      y: circle.y,
+      radius: circle.radius,
+      rx: circle.rx,
+      ry: circle.ry,
+      rotation: circle.rotation,
+    });
+    if (snapshots.length > RECENT) snapshots.pop();
+    return nextVersion++;
+  }
+
+  function cached(term: Term) {
+    for (const entry of term.recent) {
+      var same = true;
+      for (var k = 0; k < term.sets.length && same; ++k) {
+        same = entry.versions[k] === versions.get(term.sets[k]!);
+      }
+      if (same) return entry;
+    }
+    return undefined;
+  }
+
+  return {
+    loss(circles: CircleRecord) {
+      for (const [set, indices] of termsBySet) {
+        const last = versions.get(set),
+          current = version(set, circles[set]);
+        if (current !== last) {
+          versions.set(set, current);
+          for (const i of indices) dirty[i] = 1;
+        }
+      }
+
+      // regions that need working out share the points where circles cross
+      var index: CircleIndex | undefined;
+
+      for (var i = 0; i < terms.length; ++i) {
+        if (!dirty[i]) continue;
+        dirty[i] = 0;
+
+        const term = terms[i]!,
+          current = term.sets.map((set) => circles[set]);
+        if (current.some((circle) => circle === undefined)) {
+          term.overlap = undefined;
+          continue;
+        }
+
+        const ellipses = current.some((circle) => isEllipse(circle!));
+        if (current.length === 2 && !ellipses) {
+          const [left, right] = current as [Circle, Circle];
+          term.overlap = circleOverlap(
+            left.radius,
+            right.radius,
+            distance(left, right)
+          );
+          computed += 1;
+          continue;
+        }
+
+        var entry = cached(term);
+        if (entry === undefined) {
+          index = ellipses
+            ? index
+            : index ?? createCircleIndex(Object.values(circles));
+          entry = {
+            versions: term.sets.map((set) => versions.get(set)!),
+            overlap: ellipses
+              ? ellipseIntersectionArea(current as Ellipse[]).overlap
+              : intersectionArea(current as Circle[], index).overlap,
+          };
+          computed += 1;
+          term.recent.unshift(entry);
+          if (term.recent.length > RECENT) term.recent.pop();
+        }
+        term.overlap = entry.overlap;
+      }
+
+      var output = 0;
+      for (const term of terms) {
+        if (term.overlap === undefined) continue;
+        const error = term.overlap - term.size;
+        output += term.weight * error * error;
+      }
+      return output;
+    },
+    /** how many overlaps have been worked out rather than reused */
+    get computed() {
+      return computed;
+    },
+  };
+}
+
+export type LossEvaluator = ReturnType<typeof createLossEvaluator>;
@@ -0,0 +1,199 @@
+/** A rectangle to pack, and where it ended up */
+export type PackedRectangle = {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+};
+
+export type PackingOptions = {
+  /** width / height the packed rectangles should come close to, e.g. that
+   * of the viewport they are drawn in. Default 1 */
+  aspectRatio?: number;
+  /** space kept between rectangles, default 0 */
+  spacing?: number;
+};
+
+/** a stretch of the strip, and how far down it is filled so far */
+type Segment = { x: number; y: number; width: number };
+
+/** Packs rectangles without overlap into a box as close to 'aspectRatio' as
+it can, with a skyline packer: rectangles go, tallest first, wherever they
+come closest to the top of a strip of fixed width. Strips of a few widths
+around the one that would make a perfect fit are tried, and the packing that
+fills the most of the box of 'aspectRatio' around it wins. The rectangles
+are then slid towards the middle of the packing, see centreRectangles.
+Returns the
+positions of the top left corners, in the order the rectangles were given,
+along with the size of the packing and how much of the box of 'aspectRatio'
+around it the rectangles fill */
+export function packRectangles(
+  rectangles: { width: number; height: number }[],
+  { aspectRatio = 1, spacing = 0 }: PackingOptions = {}
+) {
+  if (!rectangles.length) {
+    return { rectangles: [] as PackedRectangle[], width: 0, height: 0, fill: 1 };
+  }
+
+  var area = 0,
+    used = 0,
+    widest = 0;
+  for (const rectangle of rectangles) {
+    area += (rectangle.width + spacing) * (rectangle.height + spacing);
+    used += rectangle.width * rectangle.height;
+    widest = Math.max(widest, rectangle.width + spacing);
+  }
+
+  const ideal = Math.sqrt(area * aspectRatio);
+  var best: ReturnType<typeof skyline> | undefined,
+    bestFill = -1;
+  for (const factor of [0.8, 0.9, 1, 1.1, 1.25, 1.5, 2]) {
+    const packed = skyline(rectangles, Math.max(ideal * factor, widest), spacing);
+    const fill = fillRatio(packed.width, packed.height, aspectRatio, used);
+    if (fill > bestFill) {
+      best = packed;
+      bestFill = fill;
+    }
+  }
+  centreRectangles(best!.rectangles, best!.width, best!.height, spacing);
+  return { ...best!, fill: bestFill };
+}
+
+/** Slides each rectangle, across and then down, towards the middle of a
+width x height packing as far as the others let it. The skyline leaves
+rectangles in the corners of the space they fit in, and the clusters packed
+are round, so that brings them closer together like the grid placement
+does. Moving towards the middle keeps them inside the packing */
+function centreRectangles(
+  rectangles: PackedRectangle[],
+  width: number,
+  height: number,
+  spacing: number
+) {
+  const slack = 1e-9 * Math.max(width, height);
+  const sizeOf = (axis: "x" | "y") => (axis === "x" ? "width" : "height");
+  // whether a and b are closer than 'spacing' along an axis
+  function near(a: PackedRectangle, b: PackedRectangle, axis: "x" | "y") {
+    const size = sizeOf(axis);
+    return (
+      a[axis] < b[axis] + b[size] + spacing - slack &&
+      b[axis] < a[axis] + a[size] + spacing - slack
+    );
+  }
+
+  for (const [along, across] of [
+    ["x", "y"],
+    ["y", "x"],
+  ] as const) {
+    const size = sizeOf(along),
+      middle = (along === "x" ? width : height) / 2;
+    for (const a of rectangles) {
+      const target = middle - (a[along] + a[size] / 2);
+      var shift = target;
+      for (const b of rectangles) {
+        if (a === b || !near(a, b, across)) continue;
+        // stopping just short of b, so rounding can't make them overlap
+        if (target > 0 && b[along] >= a[along] + a[size]) {
+          shift = Math.min(
+            shift,
+            b[along] - (a[along] + a[size] + spacing) - slack
+          );
+        } else if (target < 0 && b[along] + b[size] <= a[along]) {
+          shift = Math.max(
+            shift,
+            b[along] + b[size] + spacing + slack - a[along]
+          );
+        }
+      }
+      // already up against another one
+      if (shift * target > 0) a[along] += shift;
+    }
+  }
+}
+
+/** how much of the smallest box of 'aspectRatio' around a width x height
+packing the packed area takes up */
+function fillRatio(
+  width: number,
+  height: number,
+  aspectRatio: number,
+  area: number
+) {
+  const boxWidth = Math.max(width, height * aspectRatio);
+  return area / (boxWidth * (boxWidth / aspectRatio));
+}
+
+function skyline(
+  rectangles: { width: number; height: number }[],
+  stripWidth: number,
+  spacing: number
+) {
+  const order = rectangles
+    .map((_, i) => i)
+    .sort(
+      (a, b) =>
+        rectangles[b]!.height - rectangles[a]!.height ||
+        rectangles[b]!.width - rectangles[a]!.width ||
+        a - b
+    );
+
+  var segments: Segment[] = [{ x: 0, y: 0, width: stripWidth }],
+    packed: PackedRectangle[] = new Array(rectangles.length),
+    width = 0,
+    height = 0;
+  for (const i of order) {
+    const w = rectangles[i]!.width + spacing,
+      h = rectangles[i]!.height + spacing;
+
+    // closest to the top, then leftmost, of every segment it could start at
+    var bestY = Infinity,
+      bestX = 0;
+    for (var k = 0; k < segments.length; ++k) {
+      const x = segments[k]!.x;
+      if (x + w > stripWidth + 1e-9 * stripWidth) break;
+      var y = 0;
+      for (var l = k; l < segments.length && segments[l]!.x < x + w; ++l) {
+        y = Math.max(y, segments[l]!.y);
+      }
+      if (y < bestY) {
+        bestY = y;
+        bestX = x;
+      }
+    }
+    // wider than the strip, which only the first one can be
+    if (bestY === Infinity) bestY = bestX = 0;
+
+    packed[i] = { ...rectangles[i]!, x: bestX, y: bestY };
+    width = Math.max(width, bestX + w - spacing);
+    height = Math.max(height, bestY + h - spacing);
+    segments = raise(segments, bestX, w, bestY + h);
+  }
+  return { rectangles: packed, width, height };
+}
+
+/** the skyline after something of width w was placed at x, with its bottom
+edge at y */
+function raise(segments: Segment[], x: number, w: number, y: number) {
+  var ret: Segment[] = [];
+  function add(segment: Segment) {
+    const last = ret[ret.length - 1];
+    if (segment.width <= 0) return;
+    if (last && last.y === segment.y) {
+      last.width += segment.width;
+    } else {
+      ret.push(segment);
+    }
+  }
+
+  for (const segment of segments) {
+    const end = segment.x + segment.width;
+    if (end <= x || segment.x >= x + w) {
+      add({ ...segment });
+      continue;
+    }
+    if (segment.x < x) add({ x: segment.x, y: segment.y, width: x - segment.x });
+    if (segment.x <= x) add({ x, y, width: w });
+    if (end > x + w) add({ x: x + w, y: segment.y, width: end - x - w });
+  }
+  return ret;
+}
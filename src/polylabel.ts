@@ -0,0 +1,124 @@
+import type { Circle } from "./layout";
+
+import { computeTextCentre, circleMargin } from "./diagram";
+import { getBoundingBox } from "./layout";
+
+type Cell = {
+  x: number;
+  y: number;
+  /** half the side of the cell */
+  h: number;
+  /** margin at the centre of the cell */
+  d: number;
+  /** most margin any point of the cell can have */
+  max: number;
+};
+
+/** Finds the point of the region inside all of the interior sets and outside
+all of the exterior ones that is furthest from its boundary, the way
+polylabel does for polygons. The margin of a point changes at most as fast
+as the point moves, so a cell can't hold a point with more margin than its
+centre plus half its diagonal. Cells are split, most promising first, until
+none could beat the best point by more than 'precision'. For circles the
+margin is the exact distance to the boundary, for ellipses a lower bound */
+export function computePoleCentre(
+  interior: Circle[],
+  exterior: Circle[],
+  precision?: number
+): { x: number; y: number; disjoint?: boolean } {
+  // cells would be split forever trying to get within no distance at all
+  if (precision !== undefined && !(precision > 0)) {
+    throw "ERROR: polylabel precision has to be positive, got " + precision;
+  }
+
+  // the region is inside the bounds of every interior set
+  var x0 = -Infinity,
+    y0 = -Infinity,
+    x1 = Infinity,
+    y1 = Infinity;
+  for (const circle of interior) {
+    const { xRange, yRange } = getBoundingBox([circle]);
+    x0 = Math.max(x0, xRange.min);
+    x1 = Math.min(x1, xRange.max);
+    y0 = Math.max(y0, yRange.min);
+    y1 = Math.min(y1, yRange.max);
+  }
+
+  const width = x1 - x0,
+    height = y1 - y0,
+    size = Math.min(width, height);
+  if (!(size > 0)) {
+    return computeTextCentre(interior, exterior);
+  }
+  precision = precision ?? Math.max(width, height) / 1000;
+
+  function cell(x: number, y: number, h: number): Cell {
+    const d = circleMargin({ x, y }, interior, exterior);
+    return { x, y, h, d, max: d + h * Math.SQRT2 };
+  }
+
+  // cover the bounds with square cells
+  var queue: Cell[] = [];
+  for (var x = x0; x < x1; x += size) {
+    for (var y = y0; y < y1; y += size) {
+      push(queue, cell(x + size / 2, y + size / 2, size / 2));
+    }
+  }
+
+  var best = cell(x0 + width / 2, y0 + height / 2, 0);
+  for (const circle of interior) {
+    const candidate = cell(circle.x, circle.y, 0);
+    if (candidate.d > best.d) best = candidate;
+  }
+
+  var current: Cell | undefined;
+  while ((current = pop(queue))) {
+    if (current.d > best.d) best = current;
+    if (current.max - best.d <= precision) continue;
+
+    const h = current.h / 2;
+    push(queue, cell(current.x - h, current.y - h, h));
+    push(queue, cell(current.x + h, current.y - h, h));
+    push(queue, cell(current.x - h, current.y + h, h));
+    push(queue, cell(current.x + h, current.y + h, h));
+  }
+
+  // no room anywhere, leave it to the fallbacks of computeTextCentre
+  if (best.d < 0) {
+    return computeTextCentre(interior, exterior);
+  }
+  return { x: best.x, y: best.y };
+}
+
+/** binary max heap on the potential of the cells */
+function push(heap: Cell[], item: Cell) {
+  var i = heap.length;
+  heap.push(item);
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent]!.max >= item.max) break;
+    heap[i] = heap[parent]!;
+    i = parent;
+  }
+  heap[i] = item;
+}
+
+function pop(heap: Cell[]) {
+  const top = heap[0],
+    last = heap.pop();
+  if (!heap.length || !last) return top;
+
+  var i = 0;
+  for (;;) {
+    var child = 2 * i + 1;
+    if (child >= heap.length) break;
+    if (child + 1 < heap.length && heap[child + 1]!.max > heap[child]!.max) {
+      child++;
+    }
+    if (heap[child]!.max <= last.max) break;
+    heap[i] = heap[child]!;
+    i = child;
+  }
+  heap[i] = last;
+  return top;
+}
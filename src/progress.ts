@@ -0,0 +1,102 @@
+import type { CircleRecord, Params } from "./layout";
+
+/** Called as the layout improves, with a running count of the steps taken
+over the initial layout and the refinement, the loss after that step and
+the circles it was reached with */
+export type ProgressCallback = (
+  iteration: number,
+  loss: number,
+  circles: CircleRecord
+) => void;
+
+/** thrown through fmin from the history to stop an optimisation early */
+const STOP = {};
+
+/** Tracks the time budget and step count of a venn() call, shared by the
+initial layout and the refinement */
+export function createProgress(params: Params) {
+  const start = Date.now();
+  var iteration = 0;
+  return {
+    /** whether anyone is listening, so callers can skip building circles */
+    reporting: !!params.onProgress,
+    /** whether maxTimeMs has run out */
+    expired() {
+      return (
+        params.maxTimeMs !== undefined && Date.now() - start >= params.maxTimeMs
+      );
+    },
+    report(loss: number, circles: CircleRecord) {
+      iteration += 1;
+      params.onProgress?.(iteration, loss, circles);
+    },
+  };
+}
+
+export type Progress = ReturnType<typeof createProgress>;
+
+/** what fmin records in params.history every iteration, along with
+whatever else the optimiser keeps track of */
+type HistoryStep = { x: number[]; fx: number };
+
+/** Runs one of the fmin optimisers, stopping it once the time budget has
+run out or, when 'toRecord' is given, the loss has plateaued. fmin has no
+other way in, so this listens on the history it records every iteration and
+throws out of the optimiser, returning the best point seen. Steps are only
+reported when 'toRecord' is given, since the loss of other problems (such as
+the MDS stress) means nothing to the caller */
+export function minimize<F>(
+  optimizer: (
+    f: F,
+    initial: number[],
+    params: Params
+  ) => { x: number[]; fx: number },
+  f: F,
+  initial: number[],
+  params: Params,
+  progress: Progress,
+  toRecord?: (values: number[]) => CircleRecord
+) {
+  const plateauIterations = toRecord ? params.plateauIterations : undefined;
+  if (
+    params.maxTimeMs === undefined &&
+    plateauIterations === undefined &&
+    !(toRecord && progress.reporting)
+  ) {
+    return optimizer(f, initial, params);
+  }
+
+  const tolerance = params.plateauTolerance ?? 1e-6;
+  var best = { x: initial.slice(), fx: Infinity },
+    stale = 0;
+
+  const history: HistoryStep[] = [];
+  history.push = function (step: HistoryStep) {
+    params.history?.push(step);
+
+    // only improvements on the best loss by more than the relative
+    // tolerance reset the plateau count
+    const improved =
+      best.fx === Infinity || step.fx < best.fx - tolerance * Math.abs(best.fx);
+    stale = improved ? 0 : stale + 1;
+    if (step.fx < best.fx) {
+      best = { x: step.x.slice(), fx: step.fx };
+    }
+
+    if (toRecord && progress.reporting) progress.report(step.fx, toRecord(step.x));
+    if (
+      progress.expired() ||
+      (plateauIterations !== undefined && stale >= plateauIterations)
+    ) {
+      throw STOP;
+    }
+    return history.length;
+  };
+
+  try {
+    return optimizer(f, initial, { ...params, history });
+  } catch (e) {
+    if (e !== STOP) throw e;
+    return best;
+  }
+}
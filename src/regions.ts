@@ -0,0 +1,383 @@
+import type { Circle, CircleRecord } from "./layout";
+import type { EllipseCoordinates } from "./ellipse-intersection";
+
+import {
+  circleCircleIntersection,
+  coincident,
+  tolerance,
+} from "./circle-intersection";
+import {
+  ellipseAngle,
+  ellipseContains,
+  ellipseEllipseIntersection,
+  ellipsePoint,
+  ellipseSegmentArea,
+} from "./ellipse-intersection";
+import { isEllipse } from "./layout";
+
+type Point = { x: number; y: number };
+
+/** A piece of the outline of a set bounding a region */
+export type RegionArc = {
+  /** set whose outline the arc runs along */
+  setid: string;
+  circle: Circle;
+  start: Point;
+  end: Point;
+  /** angles of start and end around the set (parametric for ellipses) */
+  startAngle: number;
+  endAngle: number;
+  /** whether the arc runs with increasing angle, the svg sweep flag. This is
+   * the case when the region is inside the set */
+  sweep: boolean;
+  /** svg large arc flag */
+  large: boolean;
+};
+
+/** A closed part of the boundary of a region. Outlines run with increasing
+angle, holes the other way round */
+export type RegionLoop = {
+  arcs: RegionArc[];
+  /** signed area enclosed, negative for holes */
+  area: number;
+  hole: boolean;
+};
+
+export type RegionGeometry = {
+  sets: string[];
+  /** every arc bounding the region, loop by loop */
+  arcs: RegionArc[];
+  loops: RegionLoop[];
+  area: number;
+  /** svg path of the region, holes included */
+  path: string;
+  /** the loops as polygons, when a tolerance was given */
+  polygon?: Point[][];
+};
+
+export type RegionOptions = {
+  /** turn the arcs into polygons, straying at most this far from them */
+  tolerance?: number;
+};
+
+/** a point where the outline of a set is crossed by another set */
+type Crossing = { id: number; point: Point; angle: number };
+
+/** a piece of a set outline between two crossings, running with increasing
+angle, and the other sets it is inside of */
+type Edge = {
+  setid: string;
+  from: Crossing;
+  to: Crossing;
+  span: number;
+  inside: string[];
+  /** sets drawn exactly on top of this one, which share its outline */
+  twins: string[];
+};
+
+/** Returns the outline of the region that is inside exactly 'sets' of the
+circles, and none of the others */
+export function regionGeometry(
+  circles: CircleRecord,
+  sets: (string | number)[],
+  options: RegionOptions = {}
+): RegionGeometry {
+  const key = regionKey(sets.map(String));
+  const arcs = arrangementEdges(circles).flatMap((edge) => {
+    if (regionKey(edge.inside.concat(edge.setid, edge.twins)) === key) {
+      return [edgeArc(circles, edge, true)];
+    }
+    if (regionKey(edge.inside) === key) {
+      return [edgeArc(circles, edge, false)];
+    }
+    return [];
+  });
+  return buildRegion(sets.map(String), arcs, options);
+}
+
+/** Returns the outline of every region the circles split the plane into,
+e.g. the part of "A" and "B" outside "C", ordered by the number of sets */
+export function exclusiveRegions(
+  circles: CircleRecord,
+  options: RegionOptions = {}
+) {
+  var regions = new Map<string, { sets: string[]; arcs: ChainedArc[] }>();
+  function add(sets: string[], arc: ChainedArc) {
+    const key = regionKey(sets);
+    if (!regions.has(key)) {
+      regions.set(key, { sets: sets.slice().sort(), arcs: [] });
+    }
+    regions.get(key)!.arcs.push(arc);
+  }
+
+  // each edge bounds the region on either side of it
+  for (const edge of arrangementEdges(circles)) {
+    add(edge.inside.concat(edge.setid, edge.twins), edgeArc(circles, edge, true));
+    if (edge.inside.length) {
+      add(edge.inside, edgeArc(circles, edge, false));
+    }
+  }
+
+  return Array.from(regions.values())
+    .map((region) => buildRegion(region.sets, region.arcs, options))
+    .sort(
+      (a, b) =>
+        a.sets.length - b.sets.length ||
+        regionKey(a.sets).localeCompare(regionKey(b.sets))
+    );
+}
+
+function regionKey(sets: string[]) {
+  return sets.slice().sort().join(",");
+}
+
+function toEllipse(circle: Circle): EllipseCoordinates {
+  return {
+    x: circle.x,
+    y: circle.y,
+    rx: circle.rx ?? circle.radius,
+    ry: circle.ry ?? circle.radius,
+    rotation: circle.rotation ?? 0,
+  };
+}
+
+/** whether two sets are drawn on top of each other, up to rounding */
+function sameOutline(a: Circle, b: Circle) {
+  if (!coincident(a, b)) return false;
+  if (!isEllipse(a) && !isEllipse(b)) return true;
+
+  // turning an ellipse only moves its outline as much as it isn't round
+  const p = toEllipse(a),
+    q = toEllipse(b),
+    eps = tolerance(a, b);
+  return (
+    Math.abs(p.rx - q.rx) <= eps &&
+    Math.abs(p.ry - q.ry) <= eps &&
+    Math.abs(Math.sin(p.rotation - q.rotation) * (p.rx - p.ry)) <= eps
+  );
+}
+
+/** Splits the outline of every set at the points where other sets cross it.
+Sets drawn on top of each other share the outline of the first of them */
+function arrangementEdges(circles: CircleRecord) {
+  var twins: Record<string, string[]> = {};
+  const setids = Object.keys(circles).filter((setid) => {
+    const first = Object.keys(twins).find((other) =>
+      sameOutline(circles[other]!, circles[setid]!)
+    );
+    if (first === undefined) {
+      twins[setid] = [];
+      return true;
+    }
+    twins[first]!.push(setid);
+    return false;
+  });
+
+  var crossings: Record<string, Crossing[]> = {},
+    nextId = 0;
+  setids.forEach((setid) => (crossings[setid] = []));
+
+  for (var i = 0; i < setids.length; ++i) {
+    for (var j = i + 1; j < setids.length; ++j) {
+      const a = circles[setids[i]!]!,
+        b = circles[setids[j]!]!;
+      const points =
+        isEllipse(a) || isEllipse(b)
+          ? ellipseEllipseIntersection(toEllipse(a), toEllipse(b))
+          : circleCircleIntersection(a, b);
+      for (const point of points) {
+        const id = nextId++;
+        crossings[setids[i]!]!.push({
+          id,
+          point,
+          angle: ellipseAngle(toEllipse(a), point),
+        });
+        crossings[setids[j]!]!.push({
+          id,
+          point,
+          angle: ellipseAngle(toEllipse(b), point),
+        });
+      }
+    }
+  }
+
+  var edges: Edge[] = [];
+  for (const setid of setids) {
+    const shape = toEllipse(circles[setid]!),
+      points = crossings[setid]!.sort((a, b) => a.angle - b.angle);
+
+    // an outline nothing crosses is a single closed edge
+    if (!points.length) {
+      points.push({ id: nextId++, point: ellipsePoint(shape, 0), angle: 0 });
+    }
+
+    points.forEach((from, k) => {
+      const to = points[(k + 1) % points.length]!;
+      var span = to.angle - from.angle;
+      if (span <= 0) span += 2 * Math.PI;
+
+      const middle = ellipsePoint(shape, from.angle + span / 2);
+      const inside = setids
+        .filter(
+          (other) =>
+            other !== setid &&
+            ellipseContains(toEllipse(circles[other]!), middle)
+        )
+        .flatMap((other) => [other, ...twins[other]!]);
+      edges.push({ setid, from, to, span, inside, twins: twins[setid]! });
+    });
+  }
+  return edges;
+}
+
+/** an arc along with the crossings at its ends, to chain arcs into loops */
+type ChainedArc = RegionArc & { startId: number; endId: number };
+
+/** the edge as an arc of the region inside the set ('forward') or of the
+region outside it, which runs the other way round */
+function edgeArc(
+  circles: CircleRecord,
+  edge: Edge,
+  forward: boolean
+): ChainedArc {
+  const [start, end] = forward ? [edge.from, edge.to] : [edge.to, edge.from];
+  return {
+    setid: edge.setid,
+    circle: circles[edge.setid]!,
+    start: start.point,
+    end: end.point,
+    startAngle: start.angle,
+    endAngle: end.angle,
+    sweep: forward,
+    large: edge.span > Math.PI,
+    startId: start.id,
+    endId: end.id,
+  };
+}
+
+function buildRegion(
+  sets: string[],
+  arcs: ChainedArc[],
+  { tolerance }: RegionOptions
+): RegionGeometry {
+  // arcs meet at crossings, chain them into closed loops
+  var unused = new Set(arcs),
+    loops: RegionLoop[] = [];
+  for (const first of arcs) {
+    if (!unused.has(first)) continue;
+
+    var chain: ChainedArc[] = [],
+      current: ChainedArc | undefined = first;
+    while (current) {
+      unused.delete(current);
+      chain.push(current);
+      if (current.endId === first.startId) break;
+
+      const endId: number = current.endId;
+      current = undefined;
+      for (const next of unused) {
+        if (next.startId === endId) {
+          current = next;
+          break;
+        }
+      }
+    }
+
+    const area = loopArea(chain);
+    loops.push({ arcs: chain.map(publicArc), area, hole: area < 0 });
+  }
+
+  var area = 0;
+  for (const loop of loops) area += loop.area;
+
+  return {
+    sets,
+    arcs: loops.flatMap((loop) => loop.arcs),
+    loops,
+    area,
+    path: loops.map(loopPath).join(" "),
+    polygon:
+      tolerance === undefined
+        ? undefined
+        : loops.map((loop) => loopPolygon(loop, tolerance)),
+  };
+}
+
+function publicArc(arc: ChainedArc): RegionArc {
+  const { startId, endId, ...ret } = arc;
+  return ret;
+}
+
+/** how far round the set the arc goes */
+function arcSpan(arc: RegionArc) {
+  var span = arc.sweep
+    ? arc.endAngle - arc.startAngle
+    : arc.startAngle - arc.endAngle;
+  if (span <= 0) span += 2 * Math.PI;
+  return span;
+}
+
+/** signed area of the polygon through the ends of the arcs, plus the
+segments between each arc and its chord */
+function loopArea(arcs: RegionArc[]) {
+  var area = 0;
+  for (const arc of arcs) {
+    area += (arc.start.x * arc.end.y - arc.end.x * arc.start.y) / 2;
+    const segment = ellipseSegmentArea(toEllipse(arc.circle), arcSpan(arc));
+    area += arc.sweep ? segment : -segment;
+  }
+  return area;
+}
+
+function loopPath(loop: RegionLoop) {
+  const first = loop.arcs[0]!;
+  var ret: (string | number)[] = ["\nM", first.start.x, first.start.y];
+  for (const arc of loop.arcs) {
+    const { rx, ry, rotation } = toEllipse(arc.circle),
+      degrees = (rotation * 180) / Math.PI,
+      span = arcSpan(arc);
+
+    // svg can't draw a whole outline in one arc, go via the far side
+    if (span >= 2 * Math.PI - 1e-9) {
+      const far = ellipsePoint(toEllipse(arc.circle), arc.startAngle + Math.PI);
+      ret.push("\nA", rx, ry, degrees, 0, arc.sweep ? 1 : 0, far.x, far.y);
+    }
+    ret.push(
+      "\nA",
+      rx,
+      ry,
+      degrees,
+      arc.large && span < 2 * Math.PI - 1e-9 ? 1 : 0,
+      arc.sweep ? 1 : 0,
+      arc.end.x,
+      arc.end.y
+    );
+  }
+  ret.push("\nZ");
+  return ret.join(" ");
+}
+
+/** Samples the arcs of a loop finely enough that no chord strays more than
+'tolerance' from its arc */
+function loopPolygon(loop: RegionLoop, tolerance: number) {
+  var ret: Point[] = [];
+  for (const arc of loop.arcs) {
+    const shape = toEllipse(arc.circle),
+      radius = Math.max(shape.rx, shape.ry),
+      span = arcSpan(arc);
+    const step =
+      tolerance >= radius
+        ? Math.PI
+        : 2 * Math.acos(1 - tolerance / radius);
+    const count = Math.max(1, Math.ceil(span / step)),
+      direction = arc.sweep ? 1 : -1;
+
+    // the end of each arc is the start of the next one
+    for (var i = 0; i < count; ++i) {
+      ret.push(
+        ellipsePoint(shape, arc.startAngle + (direction * span * i) / count)
+      );
+    }
+  }
+  return ret;
+}
@@ -0,0 +1,178 @@
+import type {
+  Area,
+  Circle,
+  CircleRecord,
+  ClusterPacking,
+  Params,
+} from "./layout";
+
+import { getBoundingBox, normalizeSolution, venn } from "./layout";
+
+export type IntersectionFilter = {
+  /** keep only the k largest intersections of two sets each set is in. An
+   * intersection stays when it is among the largest of either of its sets */
+  topK?: number;
+  /** drop intersections smaller than this fraction of their smallest set */
+  minOverlap?: number;
+};
+
+/** venn() parameters for scalableVenn, along with how the groups are turned
+and packed, see normalizeSolution. Warm starts and constraints place sets
+relative to each other, which doesn't survive packing the components */
+export type ScalableParams = Omit<
+  Params,
+  "previous" | "constraints" | "onProgress"
+> &
+  IntersectionFilter & {
+    orientation?: number;
+    orientationOrder?: (a: Circle, b: Circle) => number;
+    packing?: ClusterPacking;
+  };
+
+/** Drops negligible intersections, so that the sets they link can be laid
+out apart. Intersections of more than two sets go along with any of their
+pairs, since they can't be there without them */
+export function filterIntersections(
+  areas: Area[],
+  { topK, minOverlap = 0 }: IntersectionFilter
+) {
+  var sizes = new Map<string, number>();
+  for (const area of areas) {
+    if (area.sets.length === 1) sizes.set(String(area.sets[0]), area.size);
+  }
+  const smallest = (area: Area) =>
+    Math.min(...area.sets.map((set) => sizes.get(String(set)) ?? 0));
+  const negligible = (area: Area) =>
+    !(area.size > 0) || area.size <= minOverlap * smallest(area);
+
+  // rank the intersections of each set by size
+  var pairs = areas.filter(
+    (area) => area.sets.length === 2 && !negligible(area)
+  );
+  var kept = new Set<Area>(pairs);
+  if (topK !== undefined) {
+    var ranked = new Map<string, Area[]>();
+    for (const pair of pairs) {
+      for (const set of pair.sets.map(String)) {
+        if (!ranked.has(set)) ranked.set(set, []);
+        ranked.get(set)!.push(pair);
+      }
+    }
+    kept = new Set();
+    for (const list of ranked.values()) {
+      list.sort((a, b) => b.size - a.size);
+      list.slice(0, topK).forEach((pair) => kept.add(pair));
+    }
+  }
+
+  var keptPairs = new Set<string>();
+  for (const pair of kept) keptPairs.add(pairKey(pair.sets[0]!, pair.sets[1]!));
+
+  return areas.filter((area) => {
+    if (area.sets.length === 1) return true;
+    if (area.sets.length === 2) return kept.has(area);
+    if (negligible(area)) return false;
+    for (var i = 0; i < area.sets.length; ++i) {
+      for (var j = i + 1; j < area.sets.length; ++j) {
+        if (!keptPairs.has(pairKey(area.sets[i]!, area.sets[j]!))) return false;
+      }
+    }
+    return true;
+  });
+}
+
+function pairKey(a: string | number, b: string | number) {
+  return [String(a), String(b)].sort().join(",");
+}
+
+/** Splits areas into the groups of sets that are connected by overlapping
+each other, with union-find the way disjointCluster groups circles. Each
+group comes with its sets and the intersections between them, largest group
+first */
+export function overlapComponents(areas: Area[]) {
+  var parent = new Map<string, string>();
+  function find(set: string): string {
+    const up = parent.get(set) ?? set;
+    if (up === set) return set;
+    const root = find(up);
+    parent.set(set, root);
+    return root;
+  }
+
+  for (const area of areas) {
+    for (const set of area.sets) parent.set(String(set), String(set));
+  }
+  for (const area of areas) {
+    if (area.sets.length < 2 || !(area.size > 0)) continue;
+    const root = find(String(area.sets[0]));
+    for (const set of area.sets.slice(1)) {
+      parent.set(find(String(set)), root);
+    }
+  }
+
+  var components = new Map<string, { areas: Area[]; size: number }>();
+  for (const area of areas) {
+    const root = find(String(area.sets[0]));
+    // zero sized intersections between groups say nothing new
+    if (area.sets.some((set) => find(String(set)) !== root)) continue;
+    if (!components.has(root)) components.set(root, { areas: [], size: 0 });
+    const component = components.get(root)!;
+    component.areas.push(area);
+    if (area.sets.length === 1) component.size += area.size;
+  }
+
+  return Array.from(components.values())
+    .sort((a, b) => b.size - a.size)
+    .map((component) => component.areas);
+}
+
+/** Lays out diagrams with dozens of sets. The sets are split into groups
+that overlap each other, optionally after dropping negligible intersections
+with filterIntersections, and each group is laid out on its own: that keeps
+the number of pairs and the dimensions the optimiser works in down to those
+of the largest group. The groups are then packed next to each other by
+normalizeSolution. maxTimeMs is shared by all of the groups */
+export function scalableVenn(areas: Area[], params: ScalableParams = {}) {
+  const {
+    topK,
+    minOverlap,
+    orientation = Math.PI / 2,
+    orientationOrder,
+    packing,
+    ...rest
+  } = params;
+  if (topK !== undefined || minOverlap !== undefined) {
+    areas = filterIntersections(areas, { topK, minOverlap });
+  }
+
+  const start = Date.now();
+  var combined: CircleRecord = {},
+    offset = 0;
+  for (const component of overlapComponents(areas)) {
+    const circles = venn(component, {
+      ...rest,
+      maxTimeMs:
+        rest.maxTimeMs === undefined
+          ? undefined
+          : Math.max(rest.maxTimeMs - (Date.now() - start), 0),
+    });
+
+    // side by side, so that each group is a cluster of its own when packed
+    const { xRange } = getBoundingBox(Object.values(circles) as Circle[]);
+    const width = xRange.max - xRange.min;
+    for (const setid in circles) {
+      const circle = circles[setid]!;
+      circle.x += offset - xRange.min;
+      combined[setid] = circle;
+    }
+    offset += width * 1.1;
+  }
+  return normalizeSolution(
+    combined,
+    orientation,
+    orientationOrder,
+    undefined,
+    undefined,
+    packing
+  );
+}
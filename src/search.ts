@@ -0,0 +1,97 @@
+import type { Area, CircleRecord, Params } from "./layout";
+
+import { venn, lossFunction, createRandomGenerator } from "./layout";
+
+export type SearchParams = Params & {
+  /** number of full layouts (initial layout + refinement) to try */
+  starts?: number;
+};
+
+/** A single layout of a search. Plain data, so it can be posted to a worker
+and run there with runSearch */
+export type SearchRun = {
+  index: number;
+  seed: number;
+  areas: Area[];
+  params: Params;
+};
+
+export type SearchResult = {
+  index: number;
+  seed: number;
+  loss: number;
+  circles: CircleRecord;
+};
+
+/** Splits a search into its runs. The first run uses the requested layout,
+the others restart from constrained MDS layouts, each with its own seed
+drawn from params.seed so that the whole search is reproducible */
+export function searchRuns(areas: Area[], params: SearchParams = {}) {
+  const { starts = 10, history, ...rest } = params;
+  if (!(starts >= 1)) {
+    throw "ERROR: a search needs at least one start, got " + starts;
+  }
+  const getRand = createRandomGenerator(
+    ((params.seed ?? Math.random()) * 2 ** 32) >>> 0
+  );
+
+  var runs: SearchRun[] = [];
+  for (var i = 0; i < starts; ++i) {
+    const seed = i === 0 ? params.seed ?? getRand() : getRand();
+    runs.push({
+      index: i,
+      seed: seed,
+      areas: areas,
+      params: {
+        ...rest,
+        seed: seed,
+        layout: i === 0 || rest.layout === "ellipse" ? rest.layout : "MDS",
+      },
+    });
+  }
+  return runs;
+}
+
+/** Runs a single layout of a search */
+export function runSearch(run: SearchRun): SearchResult {
+  const circles = venn(run.areas, { ...run.params });
+  return {
+    index: run.index,
+    seed: run.seed,
+    loss: lossFunction(circles, run.areas),
+    circles: circles,
+  };
+}
+
+/** best results first, ties broken by run order so results don't depend
+on the order runs finished in */
+function rank(results: SearchResult[]) {
+  if (!results.length) {
+    throw "ERROR: search finished without any results";
+  }
+  const ranked = results
+    .slice()
+    .sort((a, b) => a.loss - b.loss || a.index - b.index);
+  return { best: ranked[0]!.circles, loss: ranked[0]!.loss, ranked };
+}
+
+/** Lays out the diagram several times from different seeded starts and
+returns the layout with the lowest loss, along with every alternative
+ranked by loss */
+export function vennSearch(areas: Area[], params: SearchParams = {}) {
+  return rank(searchRuns(areas, params).map(runSearch));
+}
+
+/** Same as vennSearch, but hands the runs to 'execute', which can spread
+them over worker threads. In node, a worker only needs to call runSearch
+on the runs it is posted:
+
+    parentPort.on("message", (run) => parentPort.postMessage(runSearch(run)))
+*/
+export async function vennSearchParallel(
+  areas: Area[],
+  params: SearchParams,
+  execute: (runs: SearchRun[]) => Promise<SearchResult[]>
+) {
+  return rank(await execute(searchRuns(areas, params)));
+}
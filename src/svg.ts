@@ -0,0 +1,166 @@
+import type { Area } from "./layout";
+import type { GetVennSolutionOptions } from "./diagram";
+
+import { vennSolution, ellipsePath } from "./diagram";
+
+/** d3's category10, the palette the original venn.js used */
+export const defaultColors = [
+  "#1f77b4",
+  "#ff7f0e",
+  "#2ca02c",
+  "#d62728",
+  "#9467bd",
+  "#8c564b",
+  "#e377c2",
+  "#7f7f7f",
+  "#bcbd22",
+  "#17becf",
+];
+
+export type SvgOptions = {
+  /** fill colors, cycled through in the order of the circles */
+  colors?: string[];
+  fillOpacity?: number;
+  stroke?: string;
+  strokeWidth?: number;
+  fontSize?: number;
+  fontFamily?: string;
+  /** accessible title of the diagram */
+  title?: string;
+  /** accessible longer description of the diagram */
+  description?: string;
+  /** formats the size labels drawn in the intersections */
+  formatSize?: (size: number) => string;
+  /** prefix of the ids the title and description are referred to by, which
+   * have to be unique within the page. Numbered per document by default */
+  idPrefix?: string;
+};
+
+/** how many documents renderSvg has made, to number their ids */
+var rendered = 0;
+
+/** Renders a venn diagram to a standalone svg document, without needing a
+DOM or D3. Useful for server side rendering */
+export function renderSvg(
+  data: Area[],
+  options: GetVennSolutionOptions & SvgOptions
+) {
+  const {
+    width,
+    height,
+    colors = defaultColors,
+    fillOpacity = 0.3,
+    stroke = "none",
+    strokeWidth = 0,
+    fontSize = 14,
+    fontFamily = "sans-serif",
+    title = "Venn diagram",
+    description,
+    formatSize = (size: number) => size.toString(),
+    idPrefix = `venn-${++rendered}`,
+  } = options;
+  const titleId = escapeXml(`${idPrefix}-title`),
+    descId = escapeXml(`${idPrefix}-desc`);
+
+  const { circles, intersections } = vennSolution(data, options);
+
+  const labels = new Map<string, string>();
+  for (const datum of data) {
+    if (datum.sets.length === 1) {
+      labels.set(String(datum.sets[0]), datum.label ?? String(datum.sets[0]));
+    }
+  }
+
+  const out: string[] = [];
+  out.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"` +
+      ` viewBox="0 0 ${width} ${height}" role="img" aria-labelledby="${titleId}${
+        description ? ` ${descId}` : ""
+      }">`
+  );
+  out.push(`<title id="${titleId}">${escapeXml(title)}</title>`);
+  if (description) {
+    out.push(`<desc id="${descId}">${escapeXml(description)}</desc>`);
+  }
+
+  out.push(`<g class="venn-circles">`);
+  circles.forEach((circle, i) => {
+    const label = labels.get(circle.set_id) ?? circle.set_id;
+    const color = escapeXml(colors[i % colors.length]!);
+    const style =
+      `fill="${color}" fill-opacity="${fillOpacity}"` +
+      ` stroke="${escapeXml(stroke)}" stroke-width="${strokeWidth}"`;
+    const tooltip = `<title>${escapeXml(label)}</title>`;
+    if (circle.rx !== undefined) {
+      const d = ellipsePath(
+        circle.x,
+        circle.y,
+        circle.rx,
+        circle.ry!,
+        circle.rotation!
+      ).trim();
+      out.push(`<path d="${d}" ${style}>${tooltip}</path>`);
+    } else {
+      // circle.size is the area of the bounding square of the circle
+      const r = Math.sqrt(circle.size) / 2;
+      out.push(
+        `<circle cx="${num(circle.x)}" cy="${num(circle.y)}" r="${num(r)}"` +
+          ` ${style}>${tooltip}</circle>`
+      );
+    }
+  });
+  out.push(`</g>`);
+
+  out.push(`<g class="venn-intersections">`);
+  for (const intersection of intersections) {
+    const name = intersection.sets
+      .map((set) => labels.get(String(set)) ?? String(set))
+      .join(" ∩ ");
+    out.push(
+      `<path d="${intersection.path.trim()}" fill="none" aria-label="${escapeXml(
+        `${name}: ${formatSize(intersection.size)}`
+      )}"><title>${escapeXml(name)}</title></path>`
+    );
+  }
+  out.push(`</g>`);
+
+  const text = `font-size="${fontSize}" font-family="${escapeXml(
+    fontFamily
+  )}" text-anchor="middle" dominant-baseline="central"`;
+
+  out.push(`<g class="venn-labels">`);
+  circles.forEach((circle, i) => {
+    // sets covered by others have nowhere to put their label
+    if (circle.textX === undefined || circle.textY === undefined) return;
+    const label = labels.get(circle.set_id) ?? circle.set_id;
+    out.push(
+      `<text x="${num(circle.textX)}" y="${num(circle.textY)}" ${text}` +
+        ` fill="${escapeXml(colors[i % colors.length]!)}">${escapeXml(label)}</text>`
+    );
+  });
+  for (const intersection of intersections) {
+    if (intersection.textX === undefined || intersection.textY === undefined)
+      continue;
+    out.push(
+      `<text x="${num(intersection.textX)}" y="${num(intersection.textY)}"` +
+        ` ${text} fill="#444">${escapeXml(formatSize(intersection.size))}</text>`
+    );
+  }
+  out.push(`</g>`);
+
+  out.push(`</svg>`);
+  return out.join("\n");
+}
+
+function num(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,110 @@
+import type { Area, Circle, CircleRecord } from "./layout";
+
+import { computeTextCentres, intersectionAreaPath } from "./diagram";
+import { isEllipse, overlapArea } from "./layout";
+
+/** Returns a function of t in [0, 1] that moves the circles of 'from' to
+their positions in 'to', along with the intersection paths and text centres
+of 'areas' at each step. Both solutions should already be normalized and
+scaled. Sets only present in one of the two grow from or shrink to a radius
+of 0 where they are present. Without 'areas', every set and every pair of
+sets that overlaps in either solution is drawn */
+export function interpolateSolutions(
+  from: CircleRecord,
+  to: CircleRecord,
+  areas?: Area[]
+) {
+  const setids = Object.keys(from).concat(
+    Object.keys(to).filter((setid) => !(setid in from))
+  );
+
+  if (!areas) {
+    areas = drawnAreas(setids, from, to);
+  }
+
+  return function (t: number) {
+    const circles: CircleRecord = {};
+    for (const setid of setids) {
+      const start = from[setid] ?? collapsed(to[setid]!);
+      const end = to[setid] ?? collapsed(from[setid]!);
+      circles[setid] = interpolateCircle(start, end, t);
+    }
+
+    // sets that have shrunk away have no region or label to draw
+    const visible = areas!.filter((area) =>
+      area.sets.every((set) => circles[set] && circles[set].radius > 0)
+    );
+    // regions come and go as the sets move, which isn't worth a warning
+    const textCentres = computeTextCentres(circles, visible, ",", {
+      quiet: true,
+    });
+
+    const intersections = visible
+      .filter((area) => area.sets.length > 1)
+      .map((area) => ({
+        sets: area.sets,
+        path: intersectionAreaPath(area.sets.map((set) => circles[set]!)),
+      }));
+
+    return { circles, intersections, textCentres };
+  };
+}
+
+/** the sets, and pairs of sets that overlap, in either of two solutions,
+sized as they are drawn at their largest */
+function drawnAreas(setids: string[], from: CircleRecord, to: CircleRecord) {
+  const drawn = (sets: string[]) =>
+    Math.max(
+      ...[from, to].map((solution) =>
+        sets.every((set) => solution[set])
+          ? overlapArea(sets.map((set) => solution[set]!))
+          : 0
+      )
+    );
+
+  var areas: Area[] = setids.map((setid) => ({
+    sets: [setid],
+    size: drawn([setid]),
+  }));
+  for (var i = 0; i < setids.length; ++i) {
+    for (var j = i + 1; j < setids.length; ++j) {
+      const sets = [setids[i]!, setids[j]!],
+        size = drawn(sets);
+      if (size > 0) areas.push({ sets, size });
+    }
+  }
+  return areas;
+}
+
+/** a circle at the same position, with no area */
+function collapsed(circle: Circle): Circle {
+  return {
+    ...circle,
+    radius: 0,
+    ...(isEllipse(circle) ? { rx: 0, ry: 0 } : {}),
+  };
+}
+
+function interpolateCircle(start: Circle, end: Circle, t: number): Circle {
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  const ret: Circle = {
+    ...end,
+    x: lerp(start.x, end.x),
+    y: lerp(start.y, end.y),
+    radius: lerp(start.radius, end.radius),
+  };
+
+  if (isEllipse(start) || isEllipse(end)) {
+    const rotation = end.rotation ?? start.rotation ?? 0;
+    const startRotation = start.rotation ?? rotation;
+
+    // turn the shortest way round
+    var delta = (end.rotation ?? startRotation) - startRotation;
+    delta -= Math.round(delta / Math.PI) * Math.PI;
+
+    ret.rx = lerp(start.rx ?? start.radius, end.rx ?? end.radius);
+    ret.ry = lerp(start.ry ?? start.radius, end.ry ?? end.radius);
+    ret.rotation = startRotation + delta * t;
+  }
+  return ret;
+}
@@ -0,0 +1,33 @@
+import type { VennRequest, VennResponse } from "./async";
+
+import { handleVennRequest } from "./async";
+
+/** Worker script for vennSolutionAsync, built to dist/worker.js. Answers
+every request posted to it, both as a Web Worker and under worker_threads */
+
+type Port = {
+  postMessage(message: VennResponse): void;
+};
+
+const scope = globalThis as typeof globalThis & {
+  WorkerGlobalScope?: unknown;
+  addEventListener(
+    type: "message",
+    listener: (event: { data: VennRequest }) => void
+  ): void;
+} & Port;
+
+if (typeof scope.WorkerGlobalScope !== "undefined") {
+  scope.addEventListener("message", (event) =>
+    scope.postMessage(handleVennRequest(event.data))
+  );
+} else {
+  const specifier = "node:worker_threads";
+  import(/* @vite-ignore */ specifier).then(
+    ({ parentPort }: typeof import("node:worker_threads")) => {
+      parentPort?.on("message", (request: VennRequest) =>
+        parentPort.postMessage(handleVennRequest(request))
+      );
+    }
+  );
+}
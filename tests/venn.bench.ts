@@ -0,0 +1,88 @@
+import { bench, describe } from "vitest";
+import * as venn from "../src/index";
+
+// Random layouts like the old browser performance test used: centres in the
+// unit square and radii in (0.1, 0.5). The areas of every pair and triple of
+// circles are what the layouts get to reconstruct. Run with `npm run bench`
+
+function randomCircles(count: number, seed: number) {
+  const random = venn.createRandomGenerator(seed);
+  return Array.from({ length: count }, (_, i) => ({
+    x: random(),
+    y: random(),
+    radius: 0.1 + random() * 0.4,
+    setid: String(i),
+  }));
+}
+
+function randomAreas(circles: venn.Circle[]) {
+  var areas: venn.Area[] = circles.map((circle) => ({
+    sets: [circle.setid],
+    size: Math.PI * circle.radius * circle.radius,
+  }));
+  for (var i = 0; i < circles.length; ++i) {
+    for (var j = i + 1; j < circles.length; ++j) {
+      const pair = [circles[i]!, circles[j]!];
+      areas.push({
+        sets: pair.map((c) => c.setid),
+        size: venn.intersectionArea(pair).overlap,
+      });
+      for (var k = j + 1; k < circles.length; ++k) {
+        const triple = pair.concat(circles[k]!);
+        const size = venn.intersectionArea(triple).overlap;
+        if (size > 0) {
+          areas.push({ sets: triple.map((c) => c.setid), size });
+        }
+      }
+    }
+  }
+  return areas;
+}
+
+for (const count of [5, 10, 15]) {
+  const circles = randomCircles(count, count);
+  const record = Object.fromEntries(circles.map((c) => [c.setid, c]));
+  const areas = randomAreas(circles);
+  const regions = areas.filter((area) => area.sets.length > 2);
+
+  describe(`${count} sets`, () => {
+    bench("intersectionArea, each region alone", () => {
+      for (const area of regions) {
+        venn.intersectionArea(area.sets.map((set) => record[set]!));
+      }
+    });
+
+    bench("intersectionArea, sharing an index", () => {
+      const index = venn.createCircleIndex(circles);
+      for (const area of regions) {
+        venn.intersectionArea(
+          area.sets.map((set) => record[set]!),
+          index,
+        );
+      }
+    });
+
+    bench("lossFunction", () => {
+      venn.lossFunction(record, areas);
+    });
+
+    // what greedyLayout and the start of Nelder-Mead do: one set at a time
+    const evaluator = venn.createLossEvaluator(areas);
+    var moved = 0;
+    bench("createLossEvaluator, one set moving", () => {
+      const circle = circles[moved++ % count]!;
+      evaluator.loss({
+        ...record,
+        [circle.setid]: { ...circle, x: circle.x + 0.01 },
+      });
+    });
+
+    bench(
+      "venn",
+      () => {
+        venn.venn(areas);
+      },
+      { iterations: 3, time: 0 },
+    );
+  });
+}
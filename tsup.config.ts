@@ -5,22 +5,24 @@ export default defineConfig((options: Options) => {
 
   if (process.env.NODE_ENV === "production") {
     return {
-      entry: ["src/index.ts"],
+      entry: ["src/index.ts", "src/worker.ts"],
       format: ["esm", "cjs"],
       clean: true,
       dts: true,
       bundle: true,
-      minify: true
+      minify: true,
+      shims: true,
     };
   } else {
     return {
-      entry: ["src/index.ts"],
+      entry: ["src/index.ts", "src/worker.ts"],
       format: ["esm", "cjs", "iife"],
       clean: true,
       globalName: "venn2",
       outDir: "dev_build",
       dts: true,
       bundle: true,
+      shims: true,
     };
 
   }
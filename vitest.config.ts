@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // src/ still carries the legacy .js sources next to the typescript ones,
+    // make sure the tests exercise the typescript modules like tsup does
+    extensions: [".ts", ".mjs", ".js", ".mts", ".jsx", ".tsx", ".json"],
+  },
+});